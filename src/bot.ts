@@ -0,0 +1,291 @@
+/**
+ *
+ * File that contains the CPU opponent. It tries every placement of its pieces, scores the boards they leave
+ * behind, and then plays the best one out with the very same GameEvents a human would. The search is spread
+ * over a few frames, so that no frame of the game has to wait on it.
+ * The same search gives the placement hints of the training overlay.
+ * The idea behind: https://codemyroad.wordpress.com/2013/04/14/tetris-ai-the-near-perfect-player/
+ * @author Yu Kogure.
+ *
+ */
+
+export { Difficulties, createBot, stepBot, placements, evaluate, startSearch, refine, isDone, bestOf, bestPlacement };
+
+import { Tetromino } from "./tetrominos";
+import { Down, Drop, Hold, LockDelay, Move, Rotate } from "./state";
+import { Bot, Difficulty, Floor, GameEvent, Hint, LazyRNG, Placement, Pos, Search, State, BotSettings } from "./types";
+import { lazyRNG, randomInt, range } from "./utils";
+
+/**
+ * How each difficulty plays: slower and sloppier on easy, close to instant and looking ahead on hard.
+ */
+const Difficulties: Readonly<Record<Difficulty, BotSettings>> = {
+  easy: { inputFrames: 6, thinkFrames: 30, useHold: false, lookahead: false, mistakes: 0.1 },
+  medium: { inputFrames: 4, thinkFrames: 15, useHold: true, lookahead: false, mistakes: 0.05 },
+  hard: { inputFrames: 1, thinkFrames: 4, useHold: true, lookahead: true, mistakes: 0 },
+};
+
+// How much each feature of a board is worth, tuned by the article above.
+const WEIGHTS = {
+  HEIGHT: -0.510066, // Sum of the column heights
+  LINES: 0.760666, // Lines cleared
+  HOLES: -0.35663, // Empty cells with something above them
+  BUMPINESS: -0.184483, // Sum of the height differences between neighbouring columns
+} as const;
+
+// Only this many of the best placements are looked ahead from, one a frame, as each takes a search of its own.
+const LOOKAHEAD_WIDTH = 5;
+
+// The rotations tried for every piece: none, clockwise, twice, and counterclockwise.
+const ROTATIONS: ReadonlyArray<ReadonlyArray<number>> = [[], [1], [1, 1], [-1]];
+
+/**
+ * Creates a CPU opponent of the given difficulty.
+ *
+ * @param {Difficulty} difficulty - How strong the opponent is.
+ * @param {number} seed - The seed for its mistakes.
+ * @returns {Bot} The CPU opponent, yet to pick its first placement.
+ */
+const createBot = (difficulty: Difficulty, seed: number): Bot => {
+  const settings = Difficulties[difficulty];
+  return { settings, plan: [], wait: settings.thinkFrames, rng: lazyRNG(seed) };
+};
+
+/**
+ * Finds every placement of a piece reachable by rotating it, sliding it sideways and hard dropping it.
+ *
+ * @param {Tetromino} piece - The piece, where it spawned.
+ * @param {Floor} f - The floor to place it on.
+ * @param {ReadonlyArray<GameEvent>} prefix - Optional. The inputs to make first e.g. a hold.
+ * @returns {ReadonlyArray<Placement>} Every distinct placement.
+ */
+const placements = (
+  piece: Tetromino,
+  f: Floor,
+  prefix: ReadonlyArray<GameEvent> = []
+): ReadonlyArray<Placement> => {
+  const found = ROTATIONS.flatMap((rotations) => {
+    const rotated = rotations.reduce(
+      (t, direction) => (direction > 0 ? t.rotateRight(f) : t.rotateLeft(f)),
+      piece
+    );
+    // Slide as far as the floor allows in either direction, stopping off at every column.
+    const slide = (direction: number) => {
+      const _slide = (
+        t: Tetromino,
+        moves: ReadonlyArray<GameEvent>
+      ): ReadonlyArray<Readonly<[Tetromino, ReadonlyArray<GameEvent>]>> => {
+        const next = t.moveBy(new Pos(direction, 0));
+        return next.validPos(f)
+          ? [[t, moves], ..._slide(next, [...moves, new Move(new Pos(direction, 0))])]
+          : [[t, moves]];
+      };
+      return _slide(rotated, []);
+    };
+
+    return [...slide(-1), ...slide(1).slice(1)].map(([t, moves]) => ({
+      landed: t.drop(f),
+      inputs: [...prefix, ...rotations.map((d) => new Rotate(d)), ...moves, new Drop()],
+    }));
+  });
+
+  // Different inputs can land on the same cells, only the first (and shortest) of them is kept.
+  const cellsOf = (t: Tetromino) =>
+    t.shape
+      .flatMap((row, y) => row.map((cell, x) => (cell ? `${t.pos.x + x},${t.pos.y + y}` : "")))
+      .join(" ");
+  const keys = found.map(({ landed }) => cellsOf(landed));
+  return found
+    .filter((_, i) => keys.indexOf(keys[i]) === i)
+    .map(({ landed, inputs }) => {
+      const [lines, floor] = LockDelay.clear(LockDelay.merge(landed, f));
+      return { piece: landed, inputs, floor, lines };
+    });
+};
+
+/**
+ * Scores a board, the higher the better. Topping out is never worth it.
+ *
+ * @param {Floor} f - The floor after the lines are cleared.
+ * @param {number} lines - The number of lines cleared to get there.
+ * @returns {number} How good the board is.
+ */
+const evaluate = (f: Floor, lines: number): number => {
+  if (f[0].some(Boolean)) return -Infinity;
+
+  const heights = range(f[0].length).map((x) => {
+    const top = f.findIndex((row) => row[x]);
+    return top < 0 ? 0 : f.length - top;
+  });
+  const holes = heights
+    .map((height, x) => f.slice(f.length - height).filter((row) => !row[x]).length)
+    .reduce((a, b) => a + b, 0);
+  const bumpiness = heights
+    .slice(1)
+    .reduce((sum, height, x) => sum + Math.abs(height - heights[x]), 0);
+
+  return (
+    WEIGHTS.HEIGHT * heights.reduce((a, b) => a + b, 0) +
+    WEIGHTS.LINES * lines +
+    WEIGHTS.HOLES * holes +
+    WEIGHTS.BUMPINESS * bumpiness
+  );
+};
+
+/**
+ * Starts the search for the placement of the active piece, or of the held one if holding is allowed.
+ * Nothing is placed yet, which is up to `refine`.
+ *
+ * @param {State} s - The current state.
+ * @param {boolean} useHold - Whether placements of the held (or next) piece are considered too.
+ * @param {boolean} lookahead - Whether the best few placements are to be judged along with the piece after them.
+ * @returns {Search} The search, with the pieces to place.
+ */
+const startSearch = (s: State, useHold: boolean, lookahead: boolean): Search => {
+  // Holding swaps in the held piece, or the next one if nothing is held yet (which then moves the queue along).
+  const canHold = useHold && !s.swapped && s.config.hold;
+  const pending = [
+    { piece: s.active, prefix: [], next: s.queue[0] },
+    ...(canHold ? [{ piece: s.hold ?? s.queue[0], prefix: [new Hold()], next: s.hold ? s.queue[0] : s.queue[1] }] : []),
+  ];
+  return { floor: s.floor, pending, ranked: [], judged: 0, lookahead };
+};
+
+// The number of placements a search judges along with the piece after them.
+const toJudge = ({ ranked, lookahead }: Search) => (lookahead ? Math.min(LOOKAHEAD_WIDTH, ranked.length) : 0);
+
+/**
+ * @param {Search} search - The search.
+ * @returns {boolean} Whether every placement the search is to judge has been judged.
+ */
+const isDone = (search: Search): boolean => search.pending.length === 0 && search.judged >= toJudge(search);
+
+/**
+ * Takes the search a step further: ranks every placement of the next piece to place, or once they are all
+ * ranked, judges the next of the best placements along with the best placement of the piece after it.
+ * Either way, it is a single search of placements, which keeps each step quick enough for a frame.
+ *
+ * @param {Search} search - The search.
+ * @returns {Search} The search a step further (or as it was, if it is done).
+ */
+const refine = (search: Search): Search => {
+  if (isDone(search)) return search;
+  if (search.pending.length) {
+    const [{ piece, prefix, next }, ...pending] = search.pending;
+    const ranked = [
+      ...search.ranked,
+      ...placements(piece, search.floor, prefix).map((p) => ({
+        ...p,
+        next,
+        value: evaluate(p.floor, p.lines),
+      })),
+    ].sort((a, b) => b.value - a.value);
+    return { ...search, pending, ranked };
+  }
+  const { floor, lines, next, value } = search.ranked[search.judged];
+  const judged = next
+    ? Math.max(...placements(next, floor).map((p) => evaluate(p.floor, lines + p.lines)))
+    : value;
+  return {
+    ...search,
+    ranked: search.ranked.map((candidate, i) => (i === search.judged ? { ...candidate, value: judged } : candidate)),
+    judged: search.judged + 1,
+  };
+};
+
+/**
+ * @param {Search} search - The search, which should be done.
+ * @returns {Placement} The best placement the search has found.
+ */
+const bestOf = (search: Search): Placement =>
+  isDone(search) && toJudge(search) > 0
+    ? search.ranked
+        .slice(0, toJudge(search))
+        .reduce((top, candidate) => (candidate.value > top.value ? candidate : top))
+    : search.ranked[0];
+
+/**
+ * Picks the placement for the active piece from a search that is done, and returns the inputs to play it out.
+ *
+ * @param {BotSettings} settings - How the bot plays.
+ * @param {State} s - The current state of the bot's game.
+ * @param {Search} search - The search for the placement.
+ * @param {LazyRNG} rng - Decides whether to make a mistake.
+ * @returns {ReadonlyArray<GameEvent>} The inputs for the placement, ending with a hard drop.
+ */
+const choose = (settings: BotSettings, s: State, search: Search, rng: LazyRNG): ReadonlyArray<GameEvent> => {
+  // Without a hard drop, the piece is sonic dropped and left to lock.
+  const inputsOf = ({ inputs }: Placement): ReadonlyArray<GameEvent> =>
+    s.config.hardDrop
+      ? inputs
+      : inputs.flatMap((e) => (e instanceof Drop ? [new Down(true, "sonic"), new Down(false)] : [e]));
+
+  // Sometimes the bot just goes with whatever comes to mind.
+  if (randomInt(rng)(1000) < settings.mistakes * 1000) {
+    return inputsOf(search.ranked[randomInt(rng.next())(search.ranked.length)]);
+  }
+  return inputsOf(bestOf(search));
+};
+
+/**
+ * Finds the best placement of the active piece (without holding) as the strongest bot sees it,
+ * as a hint for the player, all in one go.
+ *
+ * @param {State} s - The current state.
+ * @returns {Hint} Where the active piece should go, and the inputs that get it there from where it is.
+ */
+const bestPlacement = (s: State): Hint => {
+  const complete = (search: Search): Search => (isDone(search) ? search : complete(refine(search)));
+  const { piece, inputs } = bestOf(complete(startSearch(s, false, true)));
+  return { piece, inputs };
+};
+
+// Tells the pieces of a game apart, and the games apart too.
+const pieceOf = (s: State) => `${s.restarts}.${s.stats.pieces}`;
+
+/**
+ * Decides the inputs of the bot for one frame of its game. The search for a placement goes on while the bot
+ * waits, a step a frame, and the placement is played out once both are done.
+ *
+ * @param {Bot} bot - The bot.
+ * @param {State} s - The current state of the bot's game.
+ * @returns {Readonly<[Bot, ReadonlyArray<GameEvent>]>} The bot for the next frame, and its inputs for this one.
+ */
+const stepBot = (bot: Bot, s: State): Readonly<[Bot, ReadonlyArray<GameEvent>]> => {
+  const { settings } = bot;
+  if (s.gameEnd || s.isPaused) {
+    return [{ ...bot, plan: [], search: undefined, wait: settings.thinkFrames }, []];
+  }
+
+  // Once the piece is gone (e.g. it locked before its placement was played out), so is whatever was planned for it.
+  const current = bot.piece === pieceOf(s) ? bot : { ...bot, plan: [], search: undefined, piece: pieceOf(s) };
+  // The piece has to enter before its placement can be searched for.
+  const search =
+    current.plan.length || s.entryDelay > 0
+      ? current.search
+      : refine(current.search ?? startSearch(s, settings.useHold, settings.lookahead));
+  if (current.wait > 0) {
+    return [{ ...current, search, wait: current.wait - 1 }, []];
+  }
+
+  const plan = current.plan.length
+    ? current.plan
+    : search && isDone(search)
+    ? choose(settings, s, search, current.rng)
+    : [];
+  if (!plan.length) {
+    return [{ ...current, search }, []];
+  }
+  const taken = settings.inputFrames > 0 ? 1 : plan.length;
+  const remaining = plan.slice(taken);
+  return [
+    {
+      ...current,
+      plan: remaining,
+      search: undefined,
+      wait: remaining.length ? settings.inputFrames - 1 : settings.thinkFrames,
+      rng: current.plan.length ? current.rng : current.rng.next().next(),
+    },
+    plan.slice(0, taken),
+  ];
+};
@@ -5,42 +5,43 @@
  * 
  */
 
-export { Viewport, Constants, Block, GRAVITY, SELF, OPPONENT };
+export { Viewport, Constants, SELF, OPPONENT };
 
 const Viewport = {
-  CANVAS_WIDTH: 200,
-  CANVAS_HEIGHT: 400,
+  BLOCK_SIZE: 20, // Size of a block in the previews
+  MIN_BLOCK_SIZE: 6, // Least a block of the grid is scaled down to, for small windows and tall boards
+  MAX_BLOCK_SIZE: 30, // Most a block of the grid is scaled up to, for big windows and small boards
+  MAX_CANVAS_WIDTH: 400, // Widest the grid is drawn, for wide boards
+  WINDOW_SHARE: 0.75, // How much of the height of the window the grid may take up
+  OVERLAY_WIDTH: 200, // Size of the canvas the game over and paused boxes are laid out for
+  OVERLAY_HEIGHT: 400,
   PREVIEW_WIDTH: 160,
   PREVIEW_HEIGHT: 80,
+  QUEUE_SLOT_HEIGHT: 50, // Height of each piece in the next queue
+  METER_WIDTH: 10, // Width of the incoming garbage meter
 } as const;
 
 const Constants = {
   FRAME_MS: 1000 / 60,
-  LOCK_DELAY: 500, // Delay before locking an active piece in ms
-  GRID_WIDTH: 10,
-  GRID_HEIGHT: 20,
+  LOCK_DELAY: 500, // Delay before locking an active piece in ms, by default
+  LOCK_RESETS: 15, // Most times a piece can put off locking by moving, in the extended lock-down
+  SOFT_DROP: 20, // How many times faster than gravity a piece falls while soft dropping
+  MIN_WIDTH: 4, // Narrowest board, which still fits the I piece lying down
+  MAX_WIDTH: 20,
+  MIN_HEIGHT: 6,
+  MAX_HEIGHT: 40,
+  MAX_BUFFER: 20, // Most hidden rows above the visible ones
   SEED: 20,
-  LEVEL_CUTOFF: 2, // Number of lines needed to clear to level up
-  INIT_DELAY: 100, // Initial Delay for Keyboard Inputs
+  KILL_SCREEN: 29, // Highest level a game can be started from, where pieces fall a row every frame on the NES
+  SPLIT_LINES: 10, // Number of lines between each split in sprint
+  GARBAGE_CAP: 8, // Most garbage lines that can come up on a single lock
+  GARBAGE_CHANGE: 0.3, // Chance of a garbage row moving its hole, for the "percentage" messiness
+  DIG_MESSINESS: "cheese", // How the holes in garbage rows are placed in dig mode
+  DIG_ROWS: 10, // Number of garbage rows kept on the floor in dig mode
   WS_ENDPOINT: "ws://localhost:8000/ws/tetris",
 } as const;
 
-const Block = {
-  WIDTH: Viewport.CANVAS_WIDTH / Constants.GRID_WIDTH,
-  HEIGHT: Viewport.CANVAS_HEIGHT / Constants.GRID_HEIGHT,
-} as const;
-
 // Represent player details
 const SELF = 0;
 const OPPONENT = 1;
 
-// Querying gives us the Frames needed for a tetromino to move to the next row
-const GRAVITY: ReadonlyArray<number> = [
-  48, 43, 38, 33, 28, 23, 18, 13, 8, 6, // Levels 00 to 09
-  5, 5, 5,                              // Levels 10 to 12
-  4, 4, 4,                              // Levels 13 to 15
-  3, 3, 3,                              // Levels 16 to 18
-  2, 2, 2, 2, 2, 2, 2, 2, 2, 2,         // Levels 19 to 28
-  // For level 29 and above it's 1
-  1
-];
@@ -0,0 +1,141 @@
+/**
+ *
+ * File that contains the key bindings i.e. which keys trigger which actions, and how they are edited and stored,
+ * along with the handling i.e. how quickly held keys repeat.
+ * @author Yu Kogure.
+ *
+ */
+
+export { ACTIONS, DefaultBindings, DefaultHandling, bind, unbind, isBound, parseBindings, toHandling, parseHandling };
+
+import { Constants } from "./const";
+import { Action, Bindings, Handling, Key } from "./types";
+
+// Every action, in the order they are listed in the settings.
+const ACTIONS: ReadonlyArray<Action> = [
+  "moveLeft",
+  "moveRight",
+  "softDrop",
+  "hardDrop",
+  "rotateLeft",
+  "rotateRight",
+  "rotate180",
+  "hold",
+  "pause",
+  "restart",
+];
+
+const DefaultBindings: Bindings = {
+  moveLeft: ["ArrowLeft"],
+  moveRight: ["ArrowRight"],
+  softDrop: ["ArrowDown"],
+  hardDrop: ["Space"],
+  rotateLeft: ["KeyZ"],
+  rotateRight: ["ArrowUp"],
+  rotate180: ["KeyA"],
+  hold: ["KeyC"],
+  pause: ["Escape"],
+  restart: ["KeyR"],
+};
+
+const DefaultHandling: Handling = {
+  das: 10,
+  arr: 2,
+  dasCut: 0,
+  softDrop: Constants.SOFT_DROP,
+};
+
+/**
+ * Binds a key to an action, taking it away from whichever action it was bound to before.
+ *
+ * @param {Action} action - The action to bind to.
+ * @param {Key} key - The key to bind.
+ * @returns {(b: Bindings) => Bindings} A function that takes the bindings to change.
+ */
+const bind = (action: Action, key: Key) => (b: Bindings): Bindings =>
+  ACTIONS.reduce<Bindings>(
+    (bindings, a) => ({
+      ...bindings,
+      [a]: a === action
+        ? [...b[a].filter((k) => k !== key), key]
+        : b[a].filter((k) => k !== key),
+    }),
+    b
+  );
+
+/**
+ * Removes every key bound to an action.
+ *
+ * @param {Action} action - The action to unbind.
+ * @returns {(b: Bindings) => Bindings} A function that takes the bindings to change.
+ */
+const unbind = (action: Action) => (b: Bindings): Bindings => ({ ...b, [action]: [] });
+
+/**
+ * Checks whether a key triggers an action.
+ *
+ * @param {Bindings} b - The bindings.
+ * @param {Action} action - The action.
+ * @returns {(key: Key) => boolean} A function that takes the key.
+ */
+const isBound = (b: Bindings, action: Action) => (key: Key): boolean =>
+  b[action].includes(key);
+
+/**
+ * Parses bindings that were stored as JSON. Actions missing from them (e.g. added since they were stored)
+ * keep their default keys.
+ *
+ * @param {string | null} json - The stored bindings, if any.
+ * @returns {Bindings} The bindings, or the defaults if nothing usable was stored.
+ */
+const parseBindings = (json: string | null): Bindings => {
+  try {
+    const stored = json ? JSON.parse(json) : {};
+    return ACTIONS.reduce<Bindings>(
+      (bindings, action) =>
+        Array.isArray(stored[action]) &&
+        stored[action].every((key: unknown) => typeof key === "string")
+          ? { ...bindings, [action]: stored[action] }
+          : bindings,
+      DefaultBindings
+    );
+  } catch {
+    return DefaultBindings;
+  }
+};
+
+/**
+ * Makes handling out of values that may not make sense e.g. typed in by hand. Frames have to be whole
+ * and not negative, and soft drop has to be at least as fast as gravity.
+ *
+ * @param {Readonly<Partial<Record<keyof Handling, unknown>>>} values - The values, any of which may be missing.
+ * @returns {Handling} The handling, with the defaults in place of any values that do not make sense.
+ */
+const toHandling = (values: Readonly<Partial<Record<keyof Handling, unknown>>>): Handling => {
+  const frames = (value: unknown, fallback: number) =>
+    typeof value === "number" && Number.isInteger(value) && value >= 0 ? value : fallback;
+  return {
+    das: frames(values.das, DefaultHandling.das),
+    arr: frames(values.arr, DefaultHandling.arr),
+    dasCut: frames(values.dasCut, DefaultHandling.dasCut),
+    softDrop:
+      values.softDrop === "sonic" || (typeof values.softDrop === "number" && values.softDrop >= 1)
+        ? values.softDrop
+        : DefaultHandling.softDrop,
+  };
+};
+
+/**
+ * Parses handling that was stored as JSON.
+ *
+ * @param {string | null} json - The stored handling, if any.
+ * @returns {Handling} The handling, or the defaults if nothing usable was stored.
+ */
+const parseHandling = (json: string | null): Handling => {
+  try {
+    const stored = json ? JSON.parse(json) : {};
+    return toHandling(stored ?? {});
+  } catch {
+    return DefaultHandling;
+  }
+};
@@ -0,0 +1,137 @@
+/**
+ *
+ * File that contains the headless game engine i.e. the game without any DOM, websocket or timers, for bots,
+ * servers and test harnesses running in Node. It is driven one frame at a time by whoever uses it.
+ * @author Yu Kogure.
+ *
+ */
+
+export {
+  GameEngine,
+  Move,
+  Rotate,
+  Drop,
+  Hold,
+  Down,
+  Pause,
+  Restart,
+  GarbageOut,
+  RetryOnFault,
+  UseKicks180,
+  Presets,
+  PieceSets,
+  parsePieces,
+  Pos,
+};
+export type { EngineOptions };
+
+import { Constants } from "./const";
+import {
+  Down,
+  Drop,
+  GarbageOut,
+  Hold,
+  Move,
+  Pause,
+  Restart,
+  RetryOnFault,
+  Rotate,
+  UseKicks180,
+  createState,
+  reduceFrame,
+} from "./state";
+import {
+  decodeReplay,
+  emptyReplay,
+  encodeReplay,
+  loadPlayback,
+  recordFrame,
+  stateAt,
+} from "./replay";
+import { GameConfig, GameEvent, GameMode, Pos, Replay, RotationSystemKind, State } from "./types";
+import { Presets } from "./presets";
+import { PieceSets, parsePieces } from "./pieces";
+
+/**
+ * EngineOptions: How to set up a new game. All are optional.
+ */
+type EngineOptions = Readonly<{
+  seed?: number;
+  mode?: GameMode;
+  rotation?: RotationSystemKind;
+  config?: GameConfig;
+}>;
+
+/**
+ * A game that is played one frame at a time. Engines are immutable: stepping returns a new engine,
+ * so any engine can be kept around e.g. for a bot to try out moves.
+ */
+class GameEngine {
+  private constructor(
+    private readonly state: State,
+    private readonly replay: Replay
+  ) {}
+
+  /**
+   * Sets up a new game.
+   *
+   * @param {EngineOptions} options - Optional. The seed (Constants.SEED by default), mode (marathon by default),
+   * rules (the modern preset by default) and rotation system (the one of the rules by default).
+   * @returns {GameEngine} The engine at the first frame of the game.
+   */
+  static create = ({
+    seed = Constants.SEED,
+    mode,
+    config = Presets.modern,
+    rotation = config.rotation,
+  }: EngineOptions = {}): GameEngine =>
+    new GameEngine(
+      createState(seed, mode, rotation, config),
+      emptyReplay(seed, mode, rotation, config)
+    );
+
+  /**
+   * Restores a game saved with `serialize`, by playing it back up to where it was saved.
+   *
+   * @param {string} json - The serialised game.
+   * @returns {GameEngine | undefined} The engine where the game was saved, or undefined if it is not a saved game.
+   */
+  static deserialize = (json: string): GameEngine | undefined => {
+    const replay = decodeReplay(json);
+    if (!replay) return undefined;
+    try {
+      return new GameEngine(stateAt(loadPlayback(replay))(replay.frames), replay);
+    } catch {
+      return undefined; // Rules that only pass for some e.g. made up by hand, which can not be played by
+    }
+  };
+
+  /**
+   * Plays out a single frame. The ticks and lock delays that happen every frame are added automatically.
+   *
+   * @param {ReadonlyArray<GameEvent>} events - Optional. The inputs of the frame e.g. moves, rotations, garbage.
+   * @returns {GameEngine} The engine after the frame.
+   */
+  step = (events: ReadonlyArray<GameEvent> = []): GameEngine =>
+    new GameEngine(
+      reduceFrame(this.state, events),
+      recordFrame(this.replay, events)
+    );
+
+  /**
+   * @returns {State} The current state of the game.
+   */
+  getState = (): State => this.state;
+
+  /**
+   * @returns {number} The number of frames played so far.
+   */
+  getFrame = (): number => this.replay.frames;
+
+  /**
+   * Saves the game, as the replay of everything that happened so far.
+   *
+   * @returns {string} The serialised game, which `GameEngine.deserialize` can restore.
+   */
+  serialize = (): string => encodeReplay(this.replay);
+}
@@ -0,0 +1,109 @@
+/**
+ *
+ * File that contains the finesse rules i.e. the fewest inputs that place a piece where it ended up.
+ * Every tap, hold to the wall (DAS) and rotation (including a half turn) is one input, and the auto repeats of a held key are free.
+ * The idea behind: https://tetris.wiki/Finesse
+ * @author Yu Kogure.
+ *
+ */
+
+export { minimalInputs, judgeFinesse, faultsOf };
+
+import { Tetromino, TetrominoFactory } from "./tetrominos";
+import { Board, Finesse, Floor, Pos } from "./types";
+import { range } from "./utils";
+
+// How far below the spawn the search happens, so that the rotations never bump into the top of the grid.
+const SEARCH_DEPTH = 4;
+
+/**
+ * Describes the cells a piece covers, regardless of its height. Two pieces with the same footprint
+ * land in the same place, even if they are in different rotation states (e.g. an S or a Z flipped over).
+ *
+ * @param {Tetromino} t - The piece.
+ * @returns {string} The columns of its cells, along with how far down each is from its top row.
+ */
+const footprint = (t: Tetromino): string => {
+  const cells = t.shape.flatMap((row, y) =>
+    row.flatMap((cell, x) => (cell ? [t.pos.add(new Pos(x, y))] : []))
+  );
+  const top = Math.min(...cells.map(({ y }) => y));
+  return cells
+    .map(({ x, y }) => `${x},${y - top}`)
+    .sort()
+    .join(" ");
+};
+
+/**
+ * Finds the fewest inputs that take a piece from its spawn to the given footprint, on an empty floor.
+ *
+ * @param {Tetromino} spawn - The piece, where it spawned.
+ * @param {Tetromino} target - The piece, where it ended up.
+ * @param {Board} board - The board it was placed on.
+ * @returns {number | undefined} The fewest inputs needed, or undefined if it can not be reached at all.
+ */
+const minimalInputs = (spawn: Tetromino, target: Tetromino, board: Board): number | undefined => {
+  const f: Floor = range(board.buffer + board.height).map(() => range(board.width).map(() => 0));
+  const goal = footprint(target);
+  const keyOf = ({ pos, rotationState }: Tetromino) => `${pos.x},${pos.y},${rotationState}`;
+
+  // Everything one input away: a tap or a DAS either way, or a rotation either way or a half turn.
+  const slide = (t: Tetromino, dx: number): Tetromino =>
+    t.moveBy(new Pos(dx, 0)).validPos(f) ? slide(t.moveBy(new Pos(dx, 0)), dx) : t;
+  const tap = (t: Tetromino, dx: number): Tetromino =>
+    t.moveBy(new Pos(dx, 0)).validPos(f) ? t.moveBy(new Pos(dx, 0)) : t;
+  const neighbours = (t: Tetromino): ReadonlyArray<Tetromino> => [
+    tap(t, -1),
+    tap(t, 1),
+    slide(t, -1),
+    slide(t, 1),
+    t.rotateRight(f),
+    t.rotateLeft(f),
+    t.rotate(2, f)[0],
+  ];
+
+  // Breadth first, so the first time the goal comes up is with the fewest inputs.
+  const search = (
+    frontier: ReadonlyArray<Tetromino>,
+    seen: ReadonlySet<string>,
+    depth: number
+  ): number | undefined => {
+    if (frontier.some((t) => footprint(t) === goal)) return depth;
+    const next = frontier
+      .flatMap(neighbours)
+      .filter((t, i, all) => !seen.has(keyOf(t)) && all.findIndex((u) => keyOf(u) === keyOf(t)) === i);
+    return next.length
+      ? search(next, new Set([...seen, ...next.map(keyOf)]), depth + 1)
+      : undefined;
+  };
+
+  const start = spawn.moveBy(new Pos(0, SEARCH_DEPTH));
+  return search([start], new Set([keyOf(start)]), 0);
+};
+
+/**
+ * Judges how a piece was placed. Pieces tucked or spun under an overhang can not be reached by dropping
+ * straight down, so they take extra inputs on purpose and are not judged.
+ *
+ * @param {Tetromino} active - The piece being locked.
+ * @param {Floor} f - The floor before the piece is merged.
+ * @param {number} inputs - The inputs pressed for the piece.
+ * @param {Board} board - The board it is placed on.
+ * @returns {Finesse | undefined} The inputs against the fewest possible, or undefined if the piece is not judged.
+ */
+const judgeFinesse = (active: Tetromino, f: Floor, inputs: number, board: Board): Finesse | undefined => {
+  const spawn = TetrominoFactory.respawn(active, board);
+  const above = active.moveTo(new Pos(active.pos.x, spawn.pos.y));
+  const minimal =
+    above.validPos(f) && above.drop(f).pos.y === active.pos.y
+      ? minimalInputs(spawn, active, board)
+      : undefined;
+  return minimal === undefined ? undefined : { inputs, minimal };
+};
+
+/**
+ * @param {Finesse | undefined} finesse - How a piece was placed, if it was judged.
+ * @returns {number} The inputs wasted placing it.
+ */
+const faultsOf = (finesse?: Finesse): number =>
+  finesse ? Math.max(finesse.inputs - finesse.minimal, 0) : 0;
@@ -0,0 +1,129 @@
+/**
+ *
+ * File that contains the garbage rules: how much a clear attacks the opponent, how incoming
+ * garbage is cancelled by our own attacks before it reaches the floor, and where its holes go.
+ * @author Yu Kogure.
+ *
+ */
+
+export { attackOf, cancelGarbage, garbageRNG, garbageRows, Attack };
+
+import { Constants } from "./const";
+import { Clear, Floor, LazyRNG, Messiness } from "./types";
+import { lazyRNG, lookup, randomInt, range } from "./utils";
+
+/**
+ * Lines of garbage sent for each kind of clear, indexed by the number of lines cleared (or the combo).
+ */
+const Attack = {
+  LINES: [0, 0, 1, 2, 4],
+  MINI: [0, 0, 1],
+  TSPIN: [0, 2, 4, 6],
+  COMBO: [0, 1, 1, 2, 2, 3, 3, 4, 4, 4, 5],
+  BACK_TO_BACK: 1,
+  PERFECT_CLEAR: 10,
+} as const;
+
+/**
+ * Computes the lines of garbage a clear sends to the opponent.
+ *
+ * @param {Clear} clear - What the locked piece achieved.
+ * @returns {number} The number of garbage lines to send.
+ */
+const attackOf = ({ lines, tSpin, combo, backToBack, perfectClear }: Clear): number =>
+  lines === 0
+    ? 0
+    : lookup(
+        tSpin === "full" ? Attack.TSPIN : tSpin === "mini" ? Attack.MINI : Attack.LINES
+      )(lines) +
+      lookup(Attack.COMBO)(Math.max(combo, 0)) +
+      (backToBack ? Attack.BACK_TO_BACK : 0) +
+      (perfectClear ? Attack.PERFECT_CLEAR : 0);
+
+/**
+ * Cancels the incoming garbage with an attack, oldest batch first.
+ *
+ * @param {ReadonlyArray<number>} queue - The batches of incoming garbage lines.
+ * @param {number} attack - The lines of garbage we are about to send.
+ * @returns {Readonly<[ReadonlyArray<number>, number]>} The garbage still incoming, and the attack left to send.
+ */
+const cancelGarbage = (
+  queue: ReadonlyArray<number>,
+  attack: number
+): Readonly<[ReadonlyArray<number>, number]> =>
+  queue.length === 0 || attack === 0
+    ? [queue, attack]
+    : queue[0] > attack
+    ? [[queue[0] - attack, ...queue.slice(1)], 0]
+    : cancelGarbage(queue.slice(1), attack - queue[0]);
+
+/**
+ * Creates the RNG stream used for garbage holes. It is derived from the game seed, but kept apart
+ * from the randomizer so that receiving garbage never changes the pieces we get.
+ *
+ * @param {number} seed - The seed of the game.
+ * @returns {LazyRNG} The RNG for garbage holes.
+ */
+const garbageRNG = (seed: number): LazyRNG => lazyRNG(seed ^ 0x5f3759df);
+
+/**
+ * Picks the hole for the next garbage row.
+ * Takes the RNG, the hole of the row above, whether the row starts a new batch and the width of the rows.
+ */
+type HolePicker = (
+  rng: LazyRNG,
+  previous: number,
+  newBatch: boolean,
+  width: number
+) => Readonly<[number, LazyRNG]>;
+
+const anyColumn = (rng: LazyRNG, width: number) => randomInt(rng)(width);
+
+// Any column but the given one.
+const otherColumn = (rng: LazyRNG, previous: number, width: number) =>
+  (previous + 1 + randomInt(rng)(width - 1)) % width;
+
+const HOLE_PICKERS: Readonly<Record<Messiness, HolePicker>> = {
+  clean: (rng, previous, newBatch, width) =>
+    newBatch ? [anyColumn(rng, width), rng.next()] : [previous, rng],
+  percentage: (rng, previous, _, width) =>
+    randomInt(rng)(100) < Constants.GARBAGE_CHANGE * 100
+      ? [otherColumn(rng.next(), previous, width), rng.next().next()]
+      : [previous, rng.next()],
+  random: (rng, _, __, width) => [anyColumn(rng, width), rng.next()],
+  cheese: (rng, previous, _, width) => [otherColumn(rng, previous, width), rng.next()],
+};
+
+/**
+ * Generates a batch of garbage rows, each with a single hole placed according to the messiness.
+ *
+ * @param {Messiness} messiness - How the holes are placed.
+ * @param {number} lines - The number of rows to generate.
+ * @param {LazyRNG} rng - The garbage RNG.
+ * @param {number} hole - The hole of the last garbage row received, which will sit right above the batch.
+ * @param {number} width - The width of the rows.
+ * @returns {Readonly<[Floor, LazyRNG, number]>} The rows (top to bottom), the RNG to continue with,
+ * and the hole of the last row generated.
+ */
+const garbageRows = (
+  messiness: Messiness,
+  lines: number,
+  rng: LazyRNG,
+  hole: number,
+  width: number
+): Readonly<[Floor, LazyRNG, number]> => {
+  const pickHole = HOLE_PICKERS[messiness];
+  const [holes, nextRng] = range(lines).reduce<Readonly<[ReadonlyArray<number>, LazyRNG]>>(
+    ([picked, r], i) => {
+      const [next, afterRng] = pickHole(r, i === 0 ? hole : picked[i - 1], i === 0, width);
+      return [[...picked, next], afterRng];
+    },
+    [[], rng]
+  );
+
+  // New rows are pushed in from the bottom, so the first row generated ends up on top.
+  const rows: Floor = holes.map((h) =>
+    range(width).map((x) => (x === h ? 0 : "brown"))
+  );
+  return [rows, nextRng, holes.length ? holes[holes.length - 1] : hole];
+};
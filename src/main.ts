@@ -7,7 +7,7 @@
  */
 
 import "./style/style.css";
-import { Pos, State, KeyEvent, Key, GameEvent, DataFromSocket, customInterval } from "./types";
+import { Pos, State, KeyEvent, Action, Bindings, GameEvent, DataFromSocket, StateFromSocket, GameMode, Playback, Replay, Difficulty, Hint, Search, Handling, Kicks180, RotationSystemKind, PresetName, GameConfig } from "./types";
 import { Constants, OPPONENT, SELF } from "./const";
 import {
   Connect,
@@ -15,16 +15,41 @@ import {
   Drop,
   GarbageOut,
   Hold,
-  LockDelay,
   Move,
   Pause,
   Restart,
+  RetryOnFault,
   Rotate,
-  Tick,
+  UseKicks180,
   initialState,
   reduceState,
+  reduceFrame,
+  frameEvents,
 } from "./state";
-import { render } from "./view";
+import { render, renderBindings, renderHandling, renderPlayback } from "./view";
+import {
+  advance,
+  decodeReplay,
+  emptyReplay,
+  encodeReplay,
+  loadPlayback,
+  recordFrame,
+  stateAt,
+} from "./replay";
+import { Difficulties, bestOf, createBot, isDone, refine, startSearch, stepBot } from "./bot";
+import {
+  DefaultBindings,
+  DefaultHandling,
+  bind,
+  isBound,
+  parseBindings,
+  parseHandling,
+  toHandling,
+  unbind,
+} from "./controls";
+import { Presets, lowestLevel, toConfig } from "./presets";
+import { hashText, range } from "./utils";
+import { pieceSetOf } from "./pieces";
 import {
   fromEvent,
   merge,
@@ -32,10 +57,13 @@ import {
   Observable,
   timer,
   Subscription,
-  NEVER,
   EMPTY,
   concat,
   partition,
+  from,
+  interval,
+  combineLatest,
+  Subject,
 } from "rxjs";
 import {
   map,
@@ -44,11 +72,78 @@ import {
   switchMap,
   takeUntil,
   bufferTime,
-  expand,
   pairwise,
+  tap,
+  share,
+  startWith,
+  withLatestFrom,
+  catchError,
+  take,
+  finalize,
+  skip,
 } from "rxjs/operators";
 import { webSocket } from "rxjs/webSocket";
 
+/**
+ * Parses the value of an option in the mode select e.g. "sprint-40", "ultra-120" (in seconds) or "dig-18".
+ *
+ * @param {string} value - The value of the selected option.
+ * @returns {GameMode} The game mode it stands for.
+ */
+const parseMode = (value: string): GameMode => {
+  const [kind, amount] = value.split("-");
+  return kind === "sprint"
+    ? { kind, lines: Number(amount) }
+    : kind === "ultra"
+    ? { kind, frames: Math.round((Number(amount) * 1000) / Constants.FRAME_MS) }
+    : kind === "dig"
+    ? { kind, lines: Number(amount), rows: Math.min(Constants.DIG_ROWS, Number(amount)) }
+    : { kind: "marathon" };
+};
+
+/**
+ * The localStorage key that the personal best of a mode is kept under, if the mode has one.
+ * Bests are kept apart by the rules, the board and the pieces, as a best on one says nothing about another.
+ * A set of one's own goes by a hash of its pieces.
+ *
+ * @param {GameMode} mode - The game mode.
+ * @param {GameConfig} config - The rules the game is played by.
+ * @returns {string | undefined} The key, or undefined if the mode does not keep a personal best.
+ */
+const bestTimeKey = (mode: GameMode, { preset, board, pieces }: GameConfig): string | undefined => {
+  const set = pieceSetOf(pieces);
+  const piecesKey = set === "custom" ? `custom-${hashText(JSON.stringify(pieces))}` : set;
+  return mode.kind === "sprint" || mode.kind === "dig"
+    ? `bestTime.${mode.kind}.${mode.lines}.${preset}.${board.width}x${board.height}+${board.buffer}.${piecesKey}`
+    : undefined;
+};
+
+/**
+ * Reads the personal best of a mode from localStorage.
+ *
+ * @param {GameMode} mode - The game mode.
+ * @param {GameConfig} config - The rules the game is played by.
+ * @returns {number | undefined} The personal best in frames, if there is one.
+ */
+const loadBestTime = (mode: GameMode, config: GameConfig): number | undefined => {
+  const key = bestTimeKey(mode, config);
+  const stored = key ? localStorage.getItem(key) : null;
+  return stored === null ? undefined : Number(stored);
+};
+
+// The localStorage keys that the key bindings and the handling are kept under.
+const BINDINGS_KEY = "bindings";
+const HANDLING_KEY = "handling";
+
+/**
+ * Parses the value of an option in the CPU select e.g. "hard", or "" for no CPU opponent.
+ *
+ * @param {string} value - The value of the selected option.
+ * @returns {Difficulty | undefined} The difficulty of the CPU opponent, if there should be one.
+ */
+const parseDifficulty = (value: string): Difficulty | undefined =>
+  value in Difficulties ? (value as Difficulty) : undefined;
+
 /**
  * Main function that is called on page load
  */
@@ -56,125 +151,371 @@ export function main() {
 
   const socket$ = webSocket<string>(Constants.WS_ENDPOINT); // create a new websocket connection
 
+  // Key bindings, edited from the settings panel and kept in localStorage.
+  // Binding a key listens for the next key pressed on its button, which never reaches the game.
+  const settingsButton = document.querySelector("#settingsButton") as HTMLButtonElement;
+  const settingsPanel = document.querySelector("#settings") as HTMLElement;
+  const resetButton = document.querySelector("#resetBindings") as HTMLButtonElement;
+  const bindButtons = Array.from(document.querySelectorAll<HTMLButtonElement>("#settings .bind"));
+  const unbindButtons = Array.from(document.querySelectorAll<HTMLButtonElement>("#settings .unbind"));
+
+  const addKey$ = merge(
+    ...bindButtons.map((button) =>
+      fromEvent(button, "click").pipe(
+        tap(() => (button.textContent = "Press a key...")),
+        switchMap(() =>
+          fromEvent<KeyboardEvent>(button, "keydown").pipe(
+            take(1),
+            takeUntil(fromEvent(button, "blur")),
+            finalize(() => (button.textContent = "Add"))
+          )
+        ),
+        tap((e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          button.blur();
+        }),
+        map(({ code }) => bind(button.dataset.action as Action, code))
+      )
+    )
+  );
+  const clearKeys$ = merge(
+    ...unbindButtons.map((button) =>
+      fromEvent(button, "click").pipe(
+        tap(() => button.blur()),
+        map(() => unbind(button.dataset.action as Action))
+      )
+    )
+  );
+  const resetKeys$ = fromEvent(resetButton, "click").pipe(
+    tap(() => resetButton.blur()),
+    map(() => (_: Bindings) => DefaultBindings)
+  );
+
+  // Every edit happens once, however many inputs are listening for the bindings.
+  const bindingEdit$ = merge(addKey$, clearKeys$, resetKeys$).pipe(share());
+  const storedBindings = parseBindings(localStorage.getItem(BINDINGS_KEY));
+  const bindings$: Observable<Bindings> = bindingEdit$.pipe(
+    scan((bindings: Bindings, edit: (b: Bindings) => Bindings) => edit(bindings), storedBindings),
+    startWith(storedBindings)
+  );
+
+  // Handling, edited from the same panel and kept in localStorage too.
+  const handlingInput = (id: string) => document.querySelector(`#${id}`) as HTMLInputElement;
+  const handlingInputs = Array.from(document.querySelectorAll<HTMLInputElement>("#settings .handling"));
+  const resetHandlingButton = document.querySelector("#resetHandling") as HTMLButtonElement;
+
   /**
-   * Creates an observable that emits keyboard events for a chose key and event type.
+   * Reads the handling out of the settings panel. Anything left empty or out of range keeps its default.
+   *
+   * @returns {Handling} The handling in the settings panel.
+   */
+  const readHandling = (): Handling =>
+    toHandling({
+      das: handlingInput("dasInput").valueAsNumber,
+      arr: handlingInput("arrInput").valueAsNumber,
+      dasCut: handlingInput("dasCutInput").valueAsNumber,
+      softDrop: handlingInput("sonicToggle").checked
+        ? "sonic"
+        : handlingInput("softDropInput").valueAsNumber,
+    });
+
+  const storedHandling = parseHandling(localStorage.getItem(HANDLING_KEY));
+  const handling$: Observable<Handling> = merge(
+    ...handlingInputs.map((input) =>
+      fromEvent(input, "change").pipe(
+        tap(() => input.blur()),
+        map(readHandling)
+      )
+    ),
+    fromEvent(resetHandlingButton, "click").pipe(
+      tap(() => resetHandlingButton.blur()),
+      map(() => DefaultHandling)
+    )
+  ).pipe(
+    share(),
+    startWith(storedHandling)
+  );
+
+  /**
+   * Creates an observable that emits keyboard events for a chose action and event type,
+   * from whichever keys are currently bound to the action. Typing out a piece set is not playing.
    * 
    * @param {KeyEvent} e - The type of key event.
-   * @param {Key} k - The specific key to observe.
+   * @param {Action} action - The specific action to observe.
    * 
-   * @returns {Observable<KeyboardEvent>} An observable that emits the specific keyboard events for the provided key.
+   * @returns {Observable<KeyboardEvent>} An observable that emits the keyboard events for the provided action.
    */
-  const keyObservable$ = (e: KeyEvent, k: Key) =>
+  const keyObservable$ = (e: KeyEvent, action: Action) =>
     fromEvent<KeyboardEvent>(document, e).pipe(
-      filter(({ code }) => code === k),
-      filter(({ repeat }) => !repeat)
+      filter(({ target }) => !(target instanceof HTMLTextAreaElement)),
+      withLatestFrom(bindings$),
+      filter(([{ code }, bindings]) => isBound(bindings, action)(code)),
+      filter(([{ repeat }]) => !repeat),
+      map(([event]) => event)
     );
 
   // Keyboard inputs
-  const startLeft$ = keyObservable$("keydown", "ArrowLeft");
-  const startRight$ = keyObservable$("keydown", "ArrowRight");
-  const stopLeft$ = keyObservable$("keyup", "ArrowLeft");
-  const stopRight$ = keyObservable$("keyup", "ArrowRight");
-  const startDown$ = keyObservable$("keydown", "ArrowDown");
-  const stopDown$ = keyObservable$("keyup", "ArrowDown");
-  const escape$ = keyObservable$("keydown", "Escape");
-  const rotateLeft$ = keyObservable$("keydown", "KeyZ").pipe(map(() => new Rotate(-1)));
-  const rotateRight$ = keyObservable$("keydown", "ArrowUp").pipe(map(() => new Rotate(1)));
-  const space$ = keyObservable$("keypress", "Space").pipe(map(() => new Drop))
-  const hold$ = keyObservable$("keypress", "KeyC").pipe(map(() => new Hold));
-  const restart$ = keyObservable$("keypress", "KeyR").pipe(map(() => new Restart));
+  const startLeft$ = keyObservable$("keydown", "moveLeft");
+  const startRight$ = keyObservable$("keydown", "moveRight");
+  const stopLeft$ = keyObservable$("keyup", "moveLeft");
+  const stopRight$ = keyObservable$("keyup", "moveRight");
+  const startDown$ = keyObservable$("keydown", "softDrop");
+  const stopDown$ = keyObservable$("keyup", "softDrop");
+  const escape$ = keyObservable$("keydown", "pause");
+  const rotateLeft$ = keyObservable$("keydown", "rotateLeft").pipe(map(() => new Rotate(-1)));
+  const rotateRight$ = keyObservable$("keydown", "rotateRight").pipe(map(() => new Rotate(1)));
+  const rotate180$ = keyObservable$("keydown", "rotate180").pipe(map(() => new Rotate(2)));
+  const rotate$ = merge(rotateLeft$, rotateRight$, rotate180$).pipe(share()); // Also cuts the DAS
+  const space$ = keyObservable$("keydown", "hardDrop").pipe(map(() => new Drop))
+  const hold$ = keyObservable$("keydown", "hold").pipe(map(() => new Hold));
+
+  const modeSelect = document.querySelector("#modeSelect") as HTMLSelectElement;
+
+  // The start menu starts a game by the rules of the preset picked, along with the rotation system of the preset.
+  // Custom rules are pieced together from the rest of the menu.
+  const startMenu = document.querySelector("#startMenu") as HTMLElement;
+  const presetSelect = document.querySelector("#presetSelect") as HTMLSelectElement;
+  const startLevelInput = document.querySelector("#startLevelInput") as HTMLInputElement;
+  const customRules = document.querySelector("#customRules") as HTMLElement;
+  const nextCountInput = document.querySelector("#nextCountInput") as HTMLInputElement;
+  const randomizerSelect = document.querySelector("#randomizerSelect") as HTMLSelectElement;
+  const holdToggle = document.querySelector("#holdToggle") as HTMLInputElement;
+  const ghostToggle = document.querySelector("#ghostToggle") as HTMLInputElement;
+  const hardDropToggle = document.querySelector("#hardDropToggle") as HTMLInputElement;
+  const messinessSelect = document.querySelector("#messinessSelect") as HTMLSelectElement;
+  const lockDownSelect = document.querySelector("#lockDownSelect") as HTMLSelectElement;
+  const lockDelayInput = document.querySelector("#lockDelayInput") as HTMLInputElement;
+  const areInput = document.querySelector("#areInput") as HTMLInputElement;
+  const lineClearDelayInput = document.querySelector("#lineClearDelayInput") as HTMLInputElement;
+  const widthInput = document.querySelector("#widthInput") as HTMLInputElement;
+  const heightInput = document.querySelector("#heightInput") as HTMLInputElement;
+  const bufferInput = document.querySelector("#bufferInput") as HTMLInputElement;
+  const pieceSetSelect = document.querySelector("#pieceSetSelect") as HTMLSelectElement;
+  const piecesInput = document.querySelector("#piecesInput") as HTMLTextAreaElement;
+  const startButton = document.querySelector("#startButton") as HTMLButtonElement;
+  const newGameButton = document.querySelector("#newGameButton") as HTMLButtonElement;
+  const rotationSelect = document.querySelector("#rotationSelect") as HTMLSelectElement;
+  const startClick$ = fromEvent(startButton, "click").pipe(tap(() => startButton.blur()));
+  const startConfig$: Observable<GameConfig> = startClick$.pipe(
+    map(() =>
+      toConfig(presetSelect.value as PresetName, {
+        startLevel: startLevelInput.valueAsNumber,
+        nextCount: nextCountInput.valueAsNumber,
+        randomizer: randomizerSelect.value,
+        hold: holdToggle.checked,
+        ghost: ghostToggle.checked,
+        hardDrop: hardDropToggle.checked,
+        messiness: messinessSelect.value,
+        lockDown: lockDownSelect.value,
+        lockDelay: lockDelayInput.valueAsNumber,
+        are: areInput.valueAsNumber,
+        lineClearDelay: lineClearDelayInput.valueAsNumber,
+        width: widthInput.valueAsNumber,
+        height: heightInput.valueAsNumber,
+        buffer: bufferInput.valueAsNumber,
+        pieceSet: pieceSetSelect.value,
+        customPieces: piecesInput.value,
+      })
+    ),
+    tap((config) => (rotationSelect.value = config.rotation)),
+    share() // Picking another mode goes by the very same rules as the game started
+  );
+  const startGame$ = startConfig$.pipe(
+    map((config) => {
+      const mode = parseMode(modeSelect.value);
+      return new Restart(mode, loadBestTime(mode, config), undefined, config);
+    })
+  );
+
+  // Picking another mode restarts the game in that mode, along with its personal best by the rules played.
+  const changeMode$ = fromEvent(modeSelect, "change").pipe(
+    tap(() => modeSelect.blur()), // Give the keyboard back to the game
+    map(() => parseMode(modeSelect.value)),
+    withLatestFrom(startConfig$.pipe(startWith(initialState.config))),
+    map(([mode, config]) => new Restart(mode, loadBestTime(mode, config)))
+  );
+
+  // Picking another rotation system restarts the game with it, since the pieces spawn differently.
+  const changeRotation$ = fromEvent(rotationSelect, "change").pipe(
+    tap(() => rotationSelect.blur()),
+    map(() => new Restart(undefined, undefined, rotationSelect.value as RotationSystemKind))
+  );
+
+  // Picking a CPU opponent (or none) restarts the game, so that both sides start out together.
+  const cpuSelect = document.querySelector("#cpuSelect") as HTMLSelectElement;
+  const cpuChange$: Observable<Difficulty | undefined> = fromEvent(cpuSelect, "change").pipe(
+    tap(() => cpuSelect.blur()),
+    map(() => parseDifficulty(cpuSelect.value))
+  );
+  const cpuDifficulty$ = cpuChange$.pipe(startWith(undefined));
+
+  // Finesse practice: pieces placed with wasted inputs have to be placed again.
+  const retryToggle = document.querySelector("#retryToggle") as HTMLInputElement;
+  const retryOnFault$ = fromEvent(retryToggle, "change").pipe(
+    tap(() => retryToggle.blur()),
+    map(() => new RetryOnFault(retryToggle.checked))
+  );
+
+  // The kicks tried for a half turn, which can be changed mid-game like the other settings of the game.
+  const kicksSelect = document.querySelector("#kicksSelect") as HTMLSelectElement;
+  const kicks180$ = fromEvent(kicksSelect, "change").pipe(
+    tap(() => kicksSelect.blur()),
+    map(() => new UseKicks180(kicksSelect.value as Kicks180))
+  );
+
+  const restart$ = merge(
+    keyObservable$("keydown", "restart").pipe(map(() => new Restart)),
+    changeMode$,
+    startGame$,
+    changeRotation$,
+    cpuChange$.pipe(map(() => new Restart))
+  );
 
   /**
-   * Creates an observable that emits events at an accelerating rate over time, 
-   * starting when the `start$` observable emits, and stops when either the `stop$`, 
-   * `stopOther$`, or the predefined `escape$` observable emits.
-   * 
-   * @param {Observable<U>} start$ - The observable to start the emission.
-   * @param {Observable<V>} stop$ - The observable to stop the emission.
-   * @param {Observable<W>} stopOther$ - Another observable to stop the emission.
-   * @param {() => T} moveAction - A function that returns the value to emit during acceleration.
-   * @param {() => T} finalAction - Optional. A function to be executed for cleanup or any final tasks.
-   * 
-   * @returns {Observable<T>} An observable that emits values at an accelerating rate.
+   * Creates an observable that moves the active piece sideways for as long as a key is held: once on the press,
+   * then once every auto repeat (ARR) after the delayed auto shift (DAS), or straight to the wall if the ARR is 0.
+   * Rotating once the DAS is charged holds off the repeats for the DAS cut, so that a piece rotated
+   * at the wall does not get dragged along straight away.
+   * It stops when either the `stop$`, `stopOther$`, or the predefined `escape$` observable emits.
+   *
+   * @param {Observable<U>} start$ - The observable to start the movement.
+   * @param {Observable<V>} stop$ - The observable to stop the movement.
+   * @param {Observable<W>} stopOther$ - Another observable to stop the movement.
+   * @param {number} dx - The direction to move in, -1 for left and 1 for right.
+   *
+   * @returns {Observable<Move>} An observable that emits the moves, with the handling at the time of the press.
    */
-  const continuousObservable = <T, U, V, W>(
+  const autoShift$ = <U, V, W>(
     start$: Observable<U>,
     stop$: Observable<V>,
     stopOther$: Observable<W>,
-    moveAction: () => T,
-    finalAction?: () => T
-  ) =>
+    dx: number
+  ): Observable<Move> =>
     start$.pipe(
-      switchMap(() =>
-        concat(
-          // This block emits an initial delay, then creates a loop that recursively gets called.
-          // It also gets shorter each time, Which helps simulate the acceleration effect.
-          of({ delay: Constants.INIT_DELAY, step: 1 }).pipe(
-            // Track delay time and step for quadratic decrement
-            expand(({ delay, step }: customInterval) => {
-              const decrement = step * step * 1.3;
-              const nextDelay = delay - decrement;
-
-              // Simulate an accelerating timer
-              return timer(nextDelay).pipe(
-                map(() => ({
-                  delay: nextDelay,
-                  step: Math.min(step + 1, 5),
-                }))
+      withLatestFrom(handling$),
+      switchMap(([_, { das, arr, dasCut }]) => {
+        const repeat$ = (delay: number) =>
+          arr > 0
+            ? timer(delay * Constants.FRAME_MS, arr * Constants.FRAME_MS)
+            : timer(delay * Constants.FRAME_MS).pipe(
+                switchMap(() => from(range(Constants.MAX_WIDTH))) // Enough to reach either wall in one frame, on any board
               );
-            }),
-
-            // Stops on its own stop$, the opposite direction's start$, or escape i.e. pause.
-            // I just pass in escape since this will always be the case for whatever future observables I might make
-            takeUntil(merge(stop$, stopOther$, escape$)),
-            map(() => moveAction())
-          ),
-          // If there's a final action to do i.e. cleanups, emit its value
-          finalAction ? of(finalAction()) : EMPTY
-        )
-      )
+        const cut$ = dasCut > 0 ? rotate$.pipe(map(() => dasCut)) : EMPTY;
+
+        return concat(
+          of(new Move(new Pos(dx, 0))),
+          timer(das * Constants.FRAME_MS).pipe(
+            switchMap(() => cut$.pipe(startWith(0), switchMap(repeat$))),
+            map(() => new Move(new Pos(dx, 0), true))
+          )
+        ).pipe(
+          // Stops on its own stop$, the opposite direction's start$, or escape i.e. pause.
+          takeUntil(merge(stop$, stopOther$, escape$))
+        );
+      })
     );
 
-  // Set up our accelerating movements
+  const moveLeft$ = autoShift$(startLeft$, stopLeft$, startRight$, -1);
+  const moveRight$ = autoShift$(startRight$, stopRight$, startLeft$, 1);
 
-  const moveLeft$ = continuousObservable(
-    startLeft$,
-    stopLeft$,
-    startRight$,
-    () => new Move(new Pos(-1, 0))
+  // Soft drop lasts for as long as its key is held, as fast as the handling at the time of the press.
+  const moveDown$ = merge(
+    startDown$.pipe(
+      withLatestFrom(handling$),
+      map(([_, { softDrop }]) => new Down(true, softDrop))
+    ),
+    merge(stopDown$, escape$).pipe(map(() => new Down(false)))
   );
 
-  const moveRight$ = continuousObservable(
-    startRight$,
-    stopRight$,
-    startLeft$,
-    () => new Move(new Pos(1, 0))
-  );
+  // Replay controls
+  const saveButton = document.querySelector("#saveReplay") as HTMLButtonElement;
+  const loadInput = document.querySelector("#loadReplay") as HTMLInputElement;
+  const playButton = document.querySelector("#playReplay") as HTMLButtonElement;
+  const speedSelect = document.querySelector("#replaySpeed") as HTMLSelectElement;
+  const frameSlider = document.querySelector("#replayFrame") as HTMLInputElement;
+  const closeButton = document.querySelector("#closeReplay") as HTMLButtonElement;
+
+  /**
+   * Creates an observable that emits whenever an element of the replay controls is used.
+   * The element gives the keyboard back to the game afterwards, so that e.g. Space does not click it again.
+   *
+   * @param {HTMLElement} elem - The element of the replay controls.
+   * @param {string} e - The type of event to listen to.
+   *
+   * @returns {Observable<Event>} An observable that emits the events of the element.
+   */
+  const controlObservable$ = (elem: HTMLElement, e: string) =>
+    fromEvent(elem, e).pipe(tap(() => elem.blur()));
 
-  const moveDown$ = continuousObservable(
-    startDown$,
-    stopDown$,
-    NEVER,
-    () => new Down(true),
-    () => new Down(false)
+  // Loading a replay file starts watching it, until it is closed.
+  const watch$: Observable<Playback> = controlObservable$(loadInput, "change").pipe(
+    switchMap(() => (loadInput.files?.length ? from(loadInput.files[0].text()) : EMPTY)),
+    tap(() => (loadInput.value = "")), // So that the same file can be loaded again
+    map(decodeReplay),
+    filter((replay): replay is Replay => replay !== undefined),
+    // Like GameEngine.deserialize, a replay that can not be played back after all is let go of,
+    // rather than ending the game being played along with it.
+    switchMap((replay) => {
+      try {
+        return of(loadPlayback(replay));
+      } catch {
+        return EMPTY;
+      }
+    }),
+    share()
   );
+  const closeReplay$ = controlObservable$(closeButton, "click");
 
-  // Restart should reset pause, while Pause should reverse its current.
-  const paused$ = merge(escape$, restart$).pipe(
+  // Restart should reset pause, watching a replay should pause, while Pause should reverse its current.
+  // The game starts paused by way of the first frame, so that replays play back from the very same start.
+  const paused$ = merge(escape$, restart$, watch$.pipe(map(() => new Pause(true)))).pipe(
     scan(
-      (paused, event) => (event instanceof Restart ? false : !paused),
-      false
+      (paused, event) =>
+        event instanceof Restart ? false : event instanceof Pause ? event.pause : !paused,
+      true // Until a game is started from the start menu
     ),
     map((paused) => new Pause(paused)),
+    startWith(new Pause(true))
   );
 
 
 
   // Parse Data from the socket, if it is boolean, then it is about connection.
   // Otherwise, it contains the information about the opponent state.
-  const [opponentState$, connection$] : Readonly<[Observable<State>, Observable<boolean>]>= partition(
-    socket$.pipe(map((s): DataFromSocket => JSON.parse(s))),
-    (data: DataFromSocket): data is State => typeof data !== "boolean"
+  // Without a backend the socket errors, which should not stop us from playing on our own or against the CPU.
+  const socketData$: Observable<DataFromSocket> = socket$.pipe(
+    map((s): DataFromSocket => JSON.parse(s)),
+    catchError(() => EMPTY)
+  );
+  const [socketMessage$, socketConnection$] : Readonly<[Observable<StateFromSocket>, Observable<boolean>]>= partition(
+    socketData$,
+    (data: DataFromSocket): data is StateFromSocket => typeof data !== "boolean"
+  );
+  // The rules are only sent when they change, so the last ones received are filled back in.
+  const socketState$: Observable<State> = socketMessage$.pipe(
+    scan((previous: State, data: StateFromSocket): State => ({ ...data, config: data.config ?? previous.config }), initialState)
+  );
+
+  /**
+   * Lets the data from the socket through, unless the CPU opponent is playing in its place.
+   *
+   * @param {Observable<T>} data$ - The data from the socket.
+   * @returns {Observable<T>} The data from the socket, while there is no CPU opponent.
+   */
+  const unlessCpu = <T>(data$: Observable<T>): Observable<T> =>
+    data$.pipe(
+      withLatestFrom(cpuDifficulty$),
+      filter(([_, difficulty]) => difficulty === undefined),
+      map(([data]) => data)
+    );
+
+  // The CPU opponent's states, which take the place of the socket's while it plays.
+  const cpuState$ = new Subject<State>();
+  const opponentState$: Observable<State> = merge(cpuState$, unlessCpu(socketState$));
+  const connection$: Observable<boolean> = merge(
+    cpuChange$.pipe(map((difficulty) => difficulty !== undefined)),
+    unlessCpu(socketConnection$)
   );
 
   // Connection update needs to change OUR state.
@@ -182,39 +523,31 @@ export function main() {
     map((update) => [new Connect(update)])
   );
 
-  // If opponent state has changed its recentClear value, it means that we need have a new garbage.
+  // If the opponent's running total of garbage sent went up, the difference is headed our way.
   const generateGarbage$ = opponentState$.pipe(
+    map(({ garbageSent }) => garbageSent),
     pairwise(),
-    filter(([previousState, currentState]) => previousState.recentClear !== currentState.recentClear),
-    map(([_, currentState]) => new GarbageOut(currentState.recentClear))
+    filter(([previousSent, currentSent]) => currentSent > previousSent),
+    map(([previousSent, currentSent]) => new GarbageOut(currentSent - previousSent))
   )
 
-  // Merges most, if not, all of the gameeEvents
+  // Merges most, if not, all of the gameeEvents, batched up per frame
   const gameEvent$: Observable<ReadonlyArray<GameEvent>> = merge(
     moveLeft$,
     moveRight$,
     moveDown$,
-    rotateLeft$,
-    rotateRight$,
+    rotate$,
     space$,
     hold$,
     restart$,
     paused$,
+    retryOnFault$,
+    kicks180$,
     generateGarbage$
   ).pipe(
     // Buffer to simulate the 60 FPS in most modern Tetris
     bufferTime(Constants.FRAME_MS),
-    map((events: ReadonlyArray<GameEvent>) => {
-      // We process pauses first, ticks next, others, lock delay, followed by garbage and restart
-      // Order is actually quite important for game logic and also user experience
-      const restarts = events.filter((e) => e instanceof Restart);
-      const pauses = events.filter((e) => e instanceof Pause);
-      const garbages = events.filter((e) => e instanceof GarbageOut);
-      const others = events.filter(
-        (e) => !(e instanceof Pause || e instanceof Restart || e instanceof GarbageOut)
-      );
-      return [...pauses, new Tick(), ...others, new LockDelay(), ...garbages, ...restarts];
-    })
+    share() // The recording needs to see the very same frames as the game
   );
 
   // Set up the renderer
@@ -222,26 +555,235 @@ export function main() {
   const selfRenderer = render(SELF);
 
   // Merge connection updates and game events, and accumulate their changes to our state
-  const state$: Observable<State> = merge(gameEvent$, connectionUpdate$).pipe(
+  const state$: Observable<State> = merge(gameEvent$.pipe(map(frameEvents)), connectionUpdate$).pipe(
     scan(
       (s: State, events: ReadonlyArray<GameEvent>): State =>
         events.reduce(reduceState, s),
       initialState
-    )
+    ),
+    share() // Every subscriber should see the same game, rather than running its own
   );
 
+  /**
+   * Runs the CPU opponent, which plays a frame of its own game for every frame of ours.
+   * It hears from us the way a remote opponent would: our attacks (the rise in our garbage sent),
+   * our restarts and our pauses all come in as GameEvents. Its game is never saved, so it is played
+   * on a plain state rather than a GameEngine, which would record every frame of it.
+   *
+   * @param {Difficulty} difficulty - How strong the opponent is.
+   * @returns {Observable<State>} The states of the CPU opponent's game.
+   */
+  const cpuOpponent$ = (difficulty: Difficulty): Observable<State> =>
+    state$.pipe(
+      scan(
+        ({ cpu, bot, ours }, current: State) => {
+          const [nextBot, inputs] = stepBot(bot, cpu);
+          const events: ReadonlyArray<GameEvent> = [
+            ...(current.restarts !== ours.restarts
+              ? [new Restart(current.mode, undefined, current.rotation, current.config)]
+              : []),
+            ...(current.isPaused !== ours.isPaused ? [new Pause(current.isPaused)] : []),
+            ...(current.garbageSent > ours.garbageSent
+              ? [new GarbageOut(current.garbageSent - ours.garbageSent)]
+              : []),
+            ...inputs,
+          ];
+          return { cpu: reduceFrame(cpu, events), bot: nextBot, ours: current };
+        },
+        {
+          cpu: initialState,
+          bot: createBot(difficulty, Constants.SEED),
+          ours: initialState,
+        }
+      ),
+      map(({ cpu }) => cpu)
+    );
+  const cpuSubscription$: Subscription = cpuDifficulty$
+    .pipe(switchMap((difficulty) => (difficulty ? cpuOpponent$(difficulty) : EMPTY)))
+    .subscribe((s) => cpuState$.next(s));
+
   // Any updats to opponent state gets sent to the renderer for opponent
   const opSubscription$: Subscription = opponentState$.subscribe({
     next: opponentRenderer,
   });
 
-  // Any updates to our state gets sent to the renderer for us
-  const mySubscription$: Subscription = state$.subscribe(selfRenderer);
+  /**
+   * Plays back a replay, with play/pause, speed controls and seeking to any frame.
+   * Positions are in (possibly fractional) frames, so that slower speeds hold each frame for longer.
+   *
+   * @param {Playback} p - The playback to play.
+   * @returns {Observable<Readonly<{ frame: number, state: State }>>} The frame being shown, and its state.
+   */
+  const playback$ = (p: Playback) => {
+    const playing$ = controlObservable$(playButton, "click").pipe(
+      scan((playing) => !playing, true),
+      startWith(true)
+    );
+    const speed$ = controlObservable$(speedSelect, "change").pipe(
+      map(() => Number(speedSelect.value)),
+      startWith(Number(speedSelect.value))
+    );
+    const step$ = combineLatest([playing$, speed$]).pipe(
+      switchMap(([playing, speed]) =>
+        playing ? interval(Constants.FRAME_MS).pipe(map(() => ({ step: speed }))) : EMPTY
+      )
+    );
+    const seek$ = controlObservable$(frameSlider, "input").pipe(
+      map(() => ({ seek: Number(frameSlider.value) }))
+    );
 
-  // Any updates to our state are also broadcasted to our websocket connection
-  const sendData$: Subscription = state$.subscribe((state) => {
-    socket$.next(JSON.stringify(state));
+    const start = { position: 0, frame: 0, state: stateAt(p)(0) };
+    return merge(step$, seek$).pipe(
+      scan(({ position, frame, state }, command) => {
+        const nextPosition =
+          "seek" in command
+            ? command.seek
+            : Math.min(position + command.step, p.replay.frames);
+        const nextFrame = Math.floor(nextPosition);
+        return {
+          position: nextPosition,
+          frame: nextFrame,
+          state: "seek" in command
+            ? stateAt(p)(nextFrame)
+            : advance(p, state, frame, nextFrame),
+        };
+      }, start),
+      startWith(start)
+    );
+  };
+
+  // While watching a replay, our board shows the replay instead of our game.
+  const selfView$: Observable<State> = merge(
+    watch$,
+    closeReplay$.pipe(map(() => null))
+  ).pipe(
+    startWith(null),
+    switchMap((p: Playback | null) =>
+      p
+        ? playback$(p).pipe(
+            tap(({ frame }) => renderPlayback({ frame, frames: p.replay.frames })),
+            map(({ state }) => state)
+          )
+        : state$
+    )
+  );
+  const closePlayback$: Subscription = closeReplay$.subscribe(() => renderPlayback());
+
+  // Training hints can be turned on and off at any time, since they are only ever drawn, never played.
+  const hintToggle = document.querySelector("#hintToggle") as HTMLInputElement;
+  const hintsOn$: Observable<boolean> = controlObservable$(hintToggle, "change").pipe(
+    map(() => hintToggle.checked),
+    startWith(hintToggle.checked)
+  );
+
+  // The hint is searched for once per piece i.e. whenever the floor or the active piece changes.
+  // The search goes a step further every frame, as the CPU opponent's does, and the hint shows once it is done.
+  const hintedView$: Observable<Readonly<{ state: State; search?: Search; hint?: Hint }>> = selfView$.pipe(
+    withLatestFrom(hintsOn$),
+    scan<Readonly<[State, boolean]>, Readonly<{ state: State; search?: Search; hint?: Hint }>>(
+      ({ state: previous, search }, [state, hintsOn]) => {
+        if (!hintsOn || state.gameEnd) return { state };
+        const next = refine(
+          search && previous.floor === state.floor && previous.active.colour === state.active.colour
+            ? search
+            : startSearch(state, false, true)
+        );
+        return { state, search: next, hint: isDone(next) ? bestOf(next) : undefined };
+      },
+      { state: initialState }
+    )
+  );
+
+  // Any updates to what our board shows gets sent to the renderer for us
+  const mySubscription$: Subscription = hintedView$.subscribe(({ state, hint }) =>
+    selfRenderer(state, hint)
+  );
+
+  // Every frame is recorded, so that the game can be saved as a replay at any point
+  const recording$: Observable<Replay> = gameEvent$.pipe(
+    scan(recordFrame, emptyReplay(Constants.SEED))
+  );
+  const saveReplay$: Subscription = controlObservable$(saveButton, "click")
+    .pipe(withLatestFrom(recording$))
+    .subscribe(([_, replay]) => {
+      const link = document.createElement("a");
+      link.href = URL.createObjectURL(
+        new Blob([encodeReplay(replay)], { type: "application/json" })
+      );
+      link.download = `replay-${Date.now()}.json`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    });
+
+  // Whenever we finish with a new personal best, keep it for next time
+  const saveBest$: Subscription = state$
+    .pipe(
+      pairwise(),
+      filter(([previous, current]) => !previous.completed && current.completed)
+    )
+    .subscribe(([_, { mode, config, bestTime }]) => {
+      const key = bestTimeKey(mode, config);
+      if (key && bestTime !== undefined) localStorage.setItem(key, String(bestTime));
+    });
+
+  // The start menu goes away once a game is started, until a new one is asked for.
+  // Picking a preset shows the level it starts from, and the custom rules if it is the custom one.
+  const hideStartMenu$: Subscription = startClick$.subscribe(() => (startMenu.hidden = true));
+  const showStartMenu$: Subscription = fromEvent(newGameButton, "click").subscribe(() => {
+    newGameButton.blur();
+    startMenu.hidden = false;
+  });
+  const pickPreset$: Subscription = fromEvent(presetSelect, "change").subscribe(() => {
+    presetSelect.blur();
+    const preset = presetSelect.value as PresetName;
+    startLevelInput.value = String(Presets[preset].startLevel);
+    startLevelInput.min = String(lowestLevel(Presets[preset]));
+    customRules.hidden = preset !== "custom";
+  });
+  const pickPieceSet$: Subscription = fromEvent(pieceSetSelect, "change").subscribe(() => {
+    pieceSetSelect.blur();
+    piecesInput.hidden = pieceSetSelect.value !== "custom";
+  });
+
+  // The settings panel shows the current bindings and handling, which are kept for next time whenever they change
+  const toggleSettings$: Subscription = fromEvent(settingsButton, "click").subscribe(() => {
+    settingsButton.blur();
+    settingsPanel.hidden = !settingsPanel.hidden;
   });
+  const showBindings$: Subscription = bindings$.subscribe(renderBindings);
+  const showHandling$: Subscription = handling$.subscribe(renderHandling);
+  const saveHandling$: Subscription = handling$
+    .pipe(skip(1))
+    .subscribe((handling) => localStorage.setItem(HANDLING_KEY, JSON.stringify(handling)));
+  const saveBindings$: Subscription = bindings$
+    .pipe(skip(1)) // Only once they are edited
+    .subscribe((bindings) => localStorage.setItem(BINDINGS_KEY, JSON.stringify(bindings)));
+
+  /**
+   * Leaves the rules out of the state to send, unless they changed or the game restarted since the last one sent,
+   * or the opponent just connected. Nothing gets through before both of us are connected, so an opponent who joins
+   * a game already going gets the rules with the first state they see.
+   *
+   * @param {State} previous - The state sent last.
+   * @param {State} state - The state to send.
+   * @returns {StateFromSocket} The state to send.
+   */
+  const toSocket = (previous: State, state: State): StateFromSocket => {
+    const { config, ...rest } = state;
+    const joined = state.opponentConnected && !previous.opponentConnected;
+    return config === previous.config && state.restarts === previous.restarts && !joined ? rest : state;
+  };
+
+  // Any updates to our state are also broadcasted to our websocket connection
+  const sendData$: Subscription = state$
+    .pipe(
+      startWith(initialState),
+      pairwise(),
+      map(([previous, state]) => toSocket(previous, state))
+    )
+    .subscribe((data) => {
+      socket$.next(JSON.stringify(data));
+    });
 }
 
 // The following simply runs your main function on window load.  Make sure to leave it in place.
@@ -0,0 +1,85 @@
+/**
+ *
+ * File that contains the rules of master, after the TGM series: levels from 0 to 999 in sections of 100,
+ * counted up by every piece and every line, with gravity speeding up to 20G and the delays tightening
+ * section by section, and a grade at the end.
+ * The idea behind: https://tetris.wiki/Tetris_The_Grand_Master_2
+ * @author Yu Kogure.
+ *
+ */
+
+export { LAST_LEVEL, MASTER_GRAVITY, MASTER_TIMINGS, nextLevel, sectionEnd, gradeOf };
+
+import { Constants } from "./const";
+import { Gravity, LevelTable, State, Timings } from "./types";
+
+const LAST_LEVEL = 999;
+const SECTION = 100; // Levels per section
+
+// The gravity from each level on, in 1/256 of a row per frame. 5120 i.e. 20 rows a frame is 20G.
+const GRAVITY_CURVE: LevelTable<number> = [
+  [0, 4], [30, 6], [35, 8], [40, 10], [50, 12], [60, 16], [70, 32], [80, 48], [90, 64],
+  [100, 80], [120, 96], [140, 112], [160, 128], [170, 144],
+  [200, 4], [220, 32], [230, 64], [233, 96], [236, 128], [239, 160], [243, 192], [247, 224], [251, 256],
+  [300, 512], [330, 768], [360, 1024], [400, 1280], [420, 1024], [450, 768],
+  [500, 5120],
+];
+
+// The delays (in frames) from each level on. The line clear delay is on top of the ARE.
+const DELAYS: LevelTable<Readonly<{ are: number; lineClearDelay: number; lockFrames: number }>> = [
+  [0, { are: 25, lineClearDelay: 40, lockFrames: 30 }],
+  [500, { are: 25, lineClearDelay: 25, lockFrames: 30 }],
+  [600, { are: 25, lineClearDelay: 7, lockFrames: 30 }],
+  [700, { are: 16, lineClearDelay: 8, lockFrames: 30 }],
+  [800, { are: 12, lineClearDelay: 0, lockFrames: 30 }],
+  [900, { are: 12, lineClearDelay: 0, lockFrames: 17 }],
+];
+
+// The grades from the lowest up, one for every so many lines. GM is only for reaching 999 in time.
+const GRADES: ReadonlyArray<string> = [
+  "9", "8", "7", "6", "5", "4", "3", "2", "1",
+  "S1", "S2", "S3", "S4", "S5", "S6", "S7", "S8", "S9",
+  "GM",
+];
+const LINES_PER_GRADE = 16;
+const GM_FRAMES = (13 * 60 + 30) * 60; // 13:30
+
+const MASTER_GRAVITY: LevelTable<Gravity> = GRAVITY_CURVE.map(([level, rows]) => [level, { rows, frames: 256 }]);
+
+// A piece only puts off locking by falling, like in TGM.
+const MASTER_TIMINGS: LevelTable<Timings> = DELAYS.map(([level, { are, lineClearDelay, lockFrames }]) => [
+  level,
+  { are, lineClearDelay, lockDelay: lockFrames * Constants.FRAME_MS, lockDown: "classic" },
+]);
+
+/**
+ * Counts up the level after a lock: one for every line cleared, and one for the next piece. The piece does
+ * not count at the end of a section (or just before the last level), which only lines can get past.
+ *
+ * @param {number} level - The level before the lock.
+ * @param {number} lines - The lines cleared by the lock.
+ * @returns {number} The level as the next piece comes in.
+ */
+const nextLevel = (level: number, lines: number): number => {
+  const cleared = Math.min(level + lines, LAST_LEVEL);
+  return cleared % SECTION === SECTION - 1 || cleared >= LAST_LEVEL - 1 ? cleared : cleared + 1;
+};
+
+/**
+ * @param {number} level - The level.
+ * @returns {number} The level that ends its section.
+ */
+const sectionEnd = (level: number): number =>
+  Math.min((Math.floor(level / SECTION) + 1) * SECTION, LAST_LEVEL);
+
+/**
+ * Grades a game of master by the lines cleared, topping out at S9. Only reaching level 999 within
+ * 13:30 is worth GM.
+ *
+ * @param {State} s - The state at the end of the game.
+ * @returns {string} The grade.
+ */
+const gradeOf = (s: State): string =>
+  s.completed && s.frames <= GM_FRAMES
+    ? GRADES[GRADES.length - 1]
+    : GRADES[Math.min(Math.floor(s.cleared / LINES_PER_GRADE), GRADES.length - 2)];
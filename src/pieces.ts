@@ -0,0 +1,250 @@
+/**
+ *
+ * File that contains the piece sets: the tetrominoes, the pentominoes, both of them together,
+ * and how a set of one's own is read from JSON.
+ * The idea behind: https://tetris.wiki/Pentomino
+ * @author Yu Kogure.
+ *
+ */
+
+export { PieceSets, BUILT_IN_SETS, parsePieces, isPieceSet, pieceSetOf };
+
+import { TetrominoFactory } from "./tetrominos";
+import { Piece, PieceSetKind, Shape, TetrominoColour } from "./types";
+
+/** Pentomino Shape Matrix, a mirror image after each of the pieces that have one */
+
+const FBlock: Shape = [
+  [0, 1, 1],
+  [1, 1, 0],
+  [0, 1, 0],
+];
+
+const FMirror: Shape = [
+  [1, 1, 0],
+  [0, 1, 1],
+  [0, 1, 0],
+];
+
+const I5Block: Shape = [
+  [0, 0, 0, 0, 0],
+  [0, 0, 0, 0, 0],
+  [1, 1, 1, 1, 1],
+  [0, 0, 0, 0, 0],
+  [0, 0, 0, 0, 0],
+];
+
+const L5Block: Shape = [
+  [0, 0, 0, 1],
+  [1, 1, 1, 1],
+  [0, 0, 0, 0],
+  [0, 0, 0, 0],
+];
+
+const L5Mirror: Shape = [
+  [1, 0, 0, 0],
+  [1, 1, 1, 1],
+  [0, 0, 0, 0],
+  [0, 0, 0, 0],
+];
+
+const NBlock: Shape = [
+  [1, 1, 0, 0],
+  [0, 1, 1, 1],
+  [0, 0, 0, 0],
+  [0, 0, 0, 0],
+];
+
+const NMirror: Shape = [
+  [0, 0, 1, 1],
+  [1, 1, 1, 0],
+  [0, 0, 0, 0],
+  [0, 0, 0, 0],
+];
+
+const PBlock: Shape = [
+  [1, 1, 0],
+  [1, 1, 1],
+  [0, 0, 0],
+];
+
+const PMirror: Shape = [
+  [0, 1, 1],
+  [1, 1, 1],
+  [0, 0, 0],
+];
+
+const T5Block: Shape = [
+  [1, 1, 1],
+  [0, 1, 0],
+  [0, 1, 0],
+];
+
+const UBlock: Shape = [
+  [1, 0, 1],
+  [1, 1, 1],
+  [0, 0, 0],
+];
+
+const VBlock: Shape = [
+  [1, 0, 0],
+  [1, 0, 0],
+  [1, 1, 1],
+];
+
+const WBlock: Shape = [
+  [1, 0, 0],
+  [1, 1, 0],
+  [0, 1, 1],
+];
+
+const XBlock: Shape = [
+  [0, 1, 0],
+  [1, 1, 1],
+  [0, 1, 0],
+];
+
+const YBlock: Shape = [
+  [0, 1, 0, 0],
+  [1, 1, 1, 1],
+  [0, 0, 0, 0],
+  [0, 0, 0, 0],
+];
+
+const YMirror: Shape = [
+  [0, 0, 1, 0],
+  [1, 1, 1, 1],
+  [0, 0, 0, 0],
+  [0, 0, 0, 0],
+];
+
+const Z5Block: Shape = [
+  [1, 1, 0],
+  [0, 1, 0],
+  [0, 1, 1],
+];
+
+const Z5Mirror: Shape = [
+  [0, 1, 1],
+  [0, 1, 0],
+  [1, 1, 0],
+];
+
+const PENTOMINOES: ReadonlyArray<Piece> = [
+  { shape: FBlock, colour: "salmon" },
+  { shape: FMirror, colour: "coral" },
+  { shape: I5Block, colour: "teal" },
+  { shape: L5Block, colour: "navy" },
+  { shape: L5Mirror, colour: "royalblue" },
+  { shape: NBlock, colour: "khaki" },
+  { shape: NMirror, colour: "gold" },
+  { shape: PBlock, colour: "orchid" },
+  { shape: PMirror, colour: "plum" },
+  { shape: T5Block, colour: "indigo" },
+  { shape: UBlock, colour: "lime" },
+  { shape: VBlock, colour: "crimson" },
+  { shape: WBlock, colour: "turquoise" },
+  { shape: XBlock, colour: "tan" },
+  { shape: YBlock, colour: "olive" },
+  { shape: YMirror, colour: "olivedrab" },
+  { shape: Z5Block, colour: "magenta" },
+  { shape: Z5Mirror, colour: "violet" },
+];
+
+// The sets that come with the game. The custom one is whatever is read from JSON.
+const BUILT_IN_SETS: ReadonlyArray<Exclude<PieceSetKind, "custom">> = ["tetrominoes", "pentominoes", "mixed"];
+const PieceSets: Readonly<Record<Exclude<PieceSetKind, "custom">, ReadonlyArray<Piece>>> = {
+  tetrominoes: TetrominoFactory.TETROMINOES,
+  pentominoes: PENTOMINOES,
+  mixed: [...TetrominoFactory.TETROMINOES, ...PENTOMINOES],
+};
+
+// The shapes of a set, in order, as text to compare sets by.
+const shapesOf = (pieces: ReadonlyArray<Piece>) => JSON.stringify(pieces.map(({ shape }) => shape));
+
+/**
+ * Tells which set the pieces are by their shapes, so that it can be told even of rules read back from JSON.
+ *
+ * @param {ReadonlyArray<Piece>} pieces - The pieces.
+ * @returns {PieceSetKind} The set that comes with the game which has the very same shapes, or custom.
+ */
+const pieceSetOf = (pieces: ReadonlyArray<Piece>): PieceSetKind =>
+  BUILT_IN_SETS.find((kind) => shapesOf(PieceSets[kind]) === shapesOf(pieces)) ?? "custom";
+
+const MAX_PIECES = 32; // Most pieces in a set of one's own
+const MAX_SIZE = 5; // Widest shape matrix of a piece of one's own
+
+/**
+ * Reads a single piece of one's own. The shape is a square matrix of 0s and 1s with at least one cell filled,
+ * and the colour is a hex colour, which can not be mistaken for the grey of the ghost or the brown of the garbage.
+ * The spawn offset and the kicks (four rows of [x, y], one row per rotation state, all of the same length)
+ * may be left out.
+ *
+ * @param {unknown} value - The piece, as parsed from JSON.
+ * @returns {Piece | undefined} The piece, or undefined if it does not make sense.
+ */
+const parsePiece = (value: unknown): Piece | undefined => {
+  if (typeof value !== "object" || value === null) return undefined;
+  const { shape, colour, spawn, kicks } = value as Record<string, unknown>;
+  const isPair = (pair: unknown): pair is Readonly<[number, number]> =>
+    Array.isArray(pair) && pair.length === 2 && pair.every(Number.isInteger);
+
+  const validShape =
+    Array.isArray(shape) &&
+    shape.length > 0 &&
+    shape.length <= MAX_SIZE &&
+    shape.every((row) => Array.isArray(row) && row.length === shape.length && row.every((cell) => cell === 0 || cell === 1)) &&
+    shape.flat().includes(1);
+  const validColour = typeof colour === "string" && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(colour);
+  const validKicks =
+    kicks === undefined ||
+    (Array.isArray(kicks) &&
+      kicks.length === 4 &&
+      kicks.every((row) => Array.isArray(row) && row.length > 0 && row.length === kicks[0].length && row.every(isPair)));
+
+  return validShape && validColour && validKicks && (spawn === undefined || isPair(spawn))
+    ? {
+        shape,
+        colour: colour as TetrominoColour,
+        ...(spawn === undefined ? {} : { spawn }),
+        ...(kicks === undefined ? {} : { kicks }),
+      }
+    : undefined;
+};
+
+/**
+ * Reads a set of one's own i.e. a list of pieces, as parsePiece reads them.
+ *
+ * @param {unknown} value - The set, as parsed from JSON.
+ * @returns {ReadonlyArray<Piece> | undefined} The pieces, or undefined if any of them does not make sense.
+ */
+const readPieces = (value: unknown): ReadonlyArray<Piece> | undefined => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_PIECES) return undefined;
+  const pieces = value.map(parsePiece);
+  return pieces.every((piece): piece is Piece => piece !== undefined) ? pieces : undefined;
+};
+
+/**
+ * Parses a set of one's own that was typed in as JSON.
+ *
+ * @param {string} json - The set.
+ * @returns {ReadonlyArray<Piece> | undefined} The pieces, or undefined if any of them does not make sense.
+ */
+const parsePieces = (json: string): ReadonlyArray<Piece> | undefined => {
+  try {
+    return readPieces(JSON.parse(json));
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Checks the pieces of rules that were read back from JSON e.g. from a replay: they are either a set
+ * that comes with the game, just as it is, or a set of one's own that parsePieces would have read.
+ *
+ * @param {unknown} value - The pieces, as parsed from JSON.
+ * @returns {boolean} Whether they can be dealt.
+ */
+const isPieceSet = (value: unknown): value is ReadonlyArray<Piece> =>
+  BUILT_IN_SETS.some((kind) => JSON.stringify(PieceSets[kind]) === JSON.stringify(value)) ||
+  readPieces(value) !== undefined;
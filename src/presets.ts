@@ -0,0 +1,202 @@
+/**
+ *
+ * File that contains the rule presets i.e. the GameConfigs to pick from in the start menu,
+ * and how a custom one is pieced together there.
+ * @author Yu Kogure.
+ *
+ */
+
+export { Presets, RANDOMIZERS, MESSINESSES, LOCK_DOWNS, toConfig, lowestLevel };
+
+import { Constants } from "./const";
+import { GameConfig, Gravity, LevelTable, LockDown, Messiness, Piece, PresetName, RandomizerKind, Timings } from "./types";
+import { LAST_LEVEL, MASTER_GRAVITY, MASTER_TIMINGS } from "./master";
+import { BUILT_IN_SETS, PieceSets, parsePieces } from "./pieces";
+import { firstFilledCol, lastFilledCol } from "./utils";
+
+// Querying gives us the Frames needed for a tetromino to move to the next row on the NES
+const NES_GRAVITY: ReadonlyArray<number> = [
+  48, 43, 38, 33, 28, 23, 18, 13, 8, 6, // Levels 00 to 09
+  5, 5, 5,                              // Levels 10 to 12
+  4, 4, 4,                              // Levels 13 to 15
+  3, 3, 3,                              // Levels 16 to 18
+  2, 2, 2, 2, 2, 2, 2, 2, 2, 2,         // Levels 19 to 28
+  // For level 29 and above it's 1
+  1
+];
+
+const RANDOMIZERS: ReadonlyArray<RandomizerKind> = ["random", "bag7", "bag14", "tgm"];
+const MESSINESSES: ReadonlyArray<Messiness> = ["clean", "percentage", "random", "cheese"];
+const LOCK_DOWNS: ReadonlyArray<LockDown> = ["infinite", "extended", "classic"];
+
+// The values that can be picked in the start menu.
+type MenuValue =
+  | "startLevel"
+  | "nextCount"
+  | "randomizer"
+  | "hold"
+  | "ghost"
+  | "hardDrop"
+  | "messiness"
+  | "lockDown"
+  | "lockDelay" // In ms
+  | "are" // In frames
+  | "lineClearDelay" // In frames
+  | "width"
+  | "height"
+  | "buffer"
+  | "pieceSet"
+  | "customPieces"; // The JSON of a set of one's own
+
+/**
+ * @param {number} first - The level the first entry is for.
+ * @returns {LevelTable<Gravity>} The NES gravity, a row every so many frames, from the given level on.
+ */
+const nesGravity = (first: number): LevelTable<Gravity> =>
+  NES_GRAVITY.map((frames, i) => [first + i, { rows: 1, frames }]);
+
+// The guideline's delays: none before the next piece enters, and half a second on the ground.
+const GUIDELINE_TIMINGS: Timings = { are: 0, lineClearDelay: 0, lockDelay: Constants.LOCK_DELAY, lockDown: "extended" };
+
+const Modern: GameConfig = {
+  preset: "modern",
+  rotation: "srs",
+  randomizer: "bag7",
+  nextCount: 5,
+  startLevel: 1,
+  leveling: "lines",
+  levelLines: 2,
+  gravity: nesGravity(1),
+  timings: [[0, GUIDELINE_TIMINGS]],
+  scoring: "guideline",
+  hold: true,
+  ghost: true,
+  hardDrop: true,
+  lockOnFall: false,
+  messiness: "clean",
+  board: { width: 10, height: 20, buffer: 20 },
+  pieces: PieceSets.tetrominoes,
+};
+
+/**
+ * The presets: the guideline rules of today, the NES rules, and the TGM rules. Custom starts out
+ * as the modern rules, and changes whatever is picked for it in the start menu.
+ * The guideline hides as many rows above the grid as there are in it, while the NES and TGM hide none.
+ */
+const Presets: Readonly<Record<PresetName, GameConfig>> = {
+  modern: Modern,
+  classic: {
+    preset: "classic",
+    rotation: "nrs",
+    randomizer: "random",
+    nextCount: 1,
+    startLevel: 0,
+    leveling: "nes",
+    levelLines: 10,
+    gravity: nesGravity(0),
+    timings: [[0, GUIDELINE_TIMINGS]], // Only the ARE counts, as a grounded piece locks once it is due to fall
+    scoring: "classic",
+    hold: false,
+    ghost: false,
+    hardDrop: false,
+    lockOnFall: true,
+    messiness: "clean",
+    board: { width: 10, height: 20, buffer: 0 },
+    pieces: PieceSets.tetrominoes,
+  },
+  master: {
+    preset: "master",
+    rotation: "ars",
+    randomizer: "tgm",
+    nextCount: 1,
+    startLevel: 0,
+    leveling: "sections",
+    levelLines: 0,
+    lastLevel: LAST_LEVEL,
+    gravity: MASTER_GRAVITY,
+    timings: MASTER_TIMINGS,
+    scoring: "master",
+    hold: true,
+    ghost: true,
+    hardDrop: true,
+    lockOnFall: false,
+    messiness: "clean",
+    board: { width: 10, height: 20, buffer: 0 },
+    pieces: PieceSets.tetrominoes,
+  },
+  custom: { ...Modern, preset: "custom" },
+};
+
+/**
+ * Guideline scoring multiplies by the level, so its games start from level 1. The others count from level 0.
+ *
+ * @param {GameConfig} config - The rules.
+ * @returns {number} The lowest level a game by the rules can start from.
+ */
+const lowestLevel = ({ scoring }: GameConfig): number => (scoring === "guideline" ? 1 : 0);
+
+/**
+ * Makes the config of a preset, with the values picked in the start menu. Any preset can be started from
+ * another level, while the rest of the values only change the custom one. Values that do not make sense
+ * e.g. typed in by hand are left as the preset has them.
+ *
+ * @param {PresetName} preset - The preset picked.
+ * @param {Readonly<Partial<Record<MenuValue, unknown>>>} values - The values, any of which may be missing.
+ * @returns {GameConfig} The config to play by.
+ */
+const toConfig = (
+  preset: PresetName,
+  values: Readonly<Partial<Record<MenuValue, unknown>>>
+): GameConfig => {
+  const base = Presets[preset];
+  const whole = (value: unknown, fallback: number, min: number, max: number) =>
+    typeof value === "number" && Number.isInteger(value) && value >= min && value <= max ? value : fallback;
+  const flag = (value: unknown, fallback: boolean) => (typeof value === "boolean" ? value : fallback);
+
+  // A set of one's own has to be read, and then the board has to be wide enough for its widest piece.
+  const builtIn = BUILT_IN_SETS.find((kind) => kind === values.pieceSet);
+  const pieces: ReadonlyArray<Piece> = builtIn
+    ? PieceSets[builtIn]
+    : values.pieceSet === "custom" && typeof values.customPieces === "string"
+    ? parsePieces(values.customPieces) ?? base.pieces
+    : base.pieces;
+  const widest = Math.max(...pieces.map(({ shape }) => lastFilledCol(shape) - firstFilledCol(shape) + 1));
+
+  // The delays picked are the same at every level.
+  const [[, timings]] = base.timings;
+  const config = {
+    ...base,
+    startLevel: whole(values.startLevel, base.startLevel, lowestLevel(base), Constants.KILL_SCREEN),
+  };
+  return preset !== "custom"
+    ? config
+    : {
+        ...config,
+        nextCount: whole(values.nextCount, base.nextCount, 1, 6),
+        randomizer: RANDOMIZERS.find((kind) => kind === values.randomizer) ?? base.randomizer,
+        hold: flag(values.hold, base.hold),
+        ghost: flag(values.ghost, base.ghost),
+        hardDrop: flag(values.hardDrop, base.hardDrop),
+        messiness: MESSINESSES.find((kind) => kind === values.messiness) ?? base.messiness,
+        timings: [
+          [
+            0,
+            {
+              are: whole(values.are, timings.are, 0, Infinity),
+              lineClearDelay: whole(values.lineClearDelay, timings.lineClearDelay, 0, Infinity),
+              lockDelay: // To the millisecond, like the menu steps through it
+                typeof values.lockDelay === "number" && Number.isFinite(values.lockDelay) && values.lockDelay >= 0
+                  ? Math.round(values.lockDelay)
+                  : timings.lockDelay,
+              lockDown: LOCK_DOWNS.find((kind) => kind === values.lockDown) ?? timings.lockDown,
+            },
+          ],
+        ],
+        board: {
+          width: Math.max(widest, whole(values.width, base.board.width, Constants.MIN_WIDTH, Constants.MAX_WIDTH)),
+          height: whole(values.height, base.board.height, Constants.MIN_HEIGHT, Constants.MAX_HEIGHT),
+          buffer: whole(values.buffer, base.board.buffer, 0, Constants.MAX_BUFFER),
+        },
+        pieces,
+      };
+};
@@ -0,0 +1,132 @@
+/**
+ *
+ * File that contains the randomizers i.e. the strategies deciding the sequence of pieces.
+ * Every randomizer is a lazily evaluated sequence of piece indices derived from a seed, so the
+ * same seed always deals the same pieces (which multiplayer and replays rely on).
+ * @author Yu Kogure.
+ *
+ */
+
+export { makeRandomizer };
+
+import { LazyRNG, Piece, Randomizer, RandomizerKind } from "./types";
+import { lazyRNG, randomInt, range } from "./utils";
+import { PieceSets, pieceSetOf } from "./pieces";
+
+// The indices of the tetrominoes we care about (see TetrominoFactory.TETROMINOES).
+const PieceIndex = { I: 0, J: 1, L: 2, O: 3, S: 4, T: 5, Z: 6 } as const;
+
+/**
+ * Shuffles the given items, consuming one RNG value per item (inside-out Fisher-Yates).
+ *
+ * @param {ReadonlyArray<T>} items - The items to shuffle.
+ * @param {LazyRNG} rng - The RNG to shuffle with.
+ * @returns {Readonly<[ReadonlyArray<T>, LazyRNG]>} The shuffled items and the RNG to continue with.
+ */
+const shuffle = <T>(
+  items: ReadonlyArray<T>,
+  rng: LazyRNG
+): Readonly<[ReadonlyArray<T>, LazyRNG]> =>
+  items.reduce<Readonly<[ReadonlyArray<T>, LazyRNG]>>(
+    ([shuffled, r], item) => {
+      const i = randomInt(r)(shuffled.length + 1);
+      return [[...shuffled.slice(0, i), item, ...shuffled.slice(i)], r.next()];
+    },
+    [[], rng]
+  );
+
+/**
+ * Every piece is picked independently, exactly like the original game did.
+ *
+ * @param {ReadonlyArray<Piece>} pieces - The set to pick from.
+ * @returns {(rng: LazyRNG) => Randomizer} A function that takes the RNG to pick from.
+ */
+const pureRandom = (pieces: ReadonlyArray<Piece>) => (rng: LazyRNG): Randomizer => ({
+  value: rng.value % pieces.length,
+  next: () => pureRandom(pieces)(rng.next()),
+});
+
+/**
+ * Deals the pieces from shuffled bags, each containing `copies` of every piece.
+ *
+ * @param {number} copies - How many of each piece a bag holds.
+ * @returns {(set: ReadonlyArray<Piece>) => (rng: LazyRNG) => Randomizer} A function that takes the set to deal,
+ * and then the RNG to shuffle with.
+ */
+const bag = (copies: number) => (set: ReadonlyArray<Piece>) => (rng: LazyRNG): Randomizer => {
+  const pieces = range(set.length * copies).map((i) => i % set.length);
+
+  const _next = (remaining: ReadonlyArray<number>, r: LazyRNG): Randomizer => {
+    // Refill with a new shuffled bag once the current one runs out.
+    if (remaining.length === 0) {
+      const [refill, nextRng] = shuffle(pieces, r);
+      return _next(refill, nextRng);
+    }
+    return {
+      value: remaining[0],
+      next: () => _next(remaining.slice(1), r),
+    };
+  };
+
+  return _next([], rng);
+};
+
+/**
+ * TGM style randomizer: rerolls a piece if it is in the recent history, up to a number of tries.
+ * With the tetrominoes, the first piece is never an S, Z or O, so that the opening never forces an overhang.
+ * Any other set (even one of as many pieces) opens with any piece.
+ *
+ * @param {number} tries - The number of rolls before accepting whatever comes up.
+ * @returns {(pieces: ReadonlyArray<Piece>) => (rng: LazyRNG) => Randomizer} A function that takes the set to deal,
+ * and then the RNG to roll with.
+ */
+const history = (tries: number) => (pieces: ReadonlyArray<Piece>) => (rng: LazyRNG) => {
+  const count = pieces.length;
+  const roll = (
+    recent: ReadonlyArray<number>,
+    r: LazyRNG,
+    attempt: number
+  ): Readonly<[number, LazyRNG]> => {
+    const piece = randomInt(r)(count);
+    return attempt < tries && recent.includes(piece)
+      ? roll(recent, r.next(), attempt + 1)
+      : [piece, r.next()];
+  };
+
+  const _next = (
+    piece: number,
+    recent: ReadonlyArray<number>,
+    r: LazyRNG
+  ): Randomizer => ({
+    value: piece,
+    next: () => {
+      const [nextPiece, nextRng] = roll(recent, r, 1);
+      return _next(nextPiece, [...recent.slice(1), nextPiece], nextRng);
+    },
+  });
+
+  const tetrominoes = pieceSetOf(pieces) === "tetrominoes";
+  const openers = tetrominoes ? [PieceIndex.I, PieceIndex.J, PieceIndex.L, PieceIndex.T] : range(count);
+  const first = openers[randomInt(rng)(openers.length)];
+  const { S, Z } = PieceIndex;
+  return _next(first, tetrominoes ? [S, Z, S, first] : [first, first, first, first], rng.next());
+};
+
+const RANDOMIZERS: Readonly<Record<RandomizerKind, (pieces: ReadonlyArray<Piece>) => (rng: LazyRNG) => Randomizer>> = {
+  random: pureRandom,
+  bag7: bag(1),
+  bag14: bag(2),
+  tgm: history(6),
+};
+
+/**
+ * Creates the randomizer of the given kind, seeded so that the sequence is reproducible.
+ *
+ * @param {RandomizerKind} kind - The strategy used to pick the pieces.
+ * @param {ReadonlyArray<Piece>} pieces - Optional. The set to deal, the tetrominoes by default.
+ * @returns {(seed: number) => Randomizer} A function that takes the seed.
+ */
+const makeRandomizer =
+  (kind: RandomizerKind, pieces: ReadonlyArray<Piece> = PieceSets.tetrominoes) =>
+  (seed: number): Randomizer =>
+    RANDOMIZERS[kind](pieces)(lazyRNG(seed));
@@ -0,0 +1,347 @@
+/**
+ *
+ * File that contains the replay recording and playback.
+ * Since `reduceState` is pure and the pieces come from a seed, a game is fully determined by its seed and
+ * the inputs of every frame, which is all a replay has to keep.
+ * @author Yu Kogure.
+ *
+ */
+
+export {
+  emptyReplay,
+  recordFrame,
+  encodeReplay,
+  decodeReplay,
+  loadPlayback,
+  stateAt,
+  advance,
+};
+
+import { EncodedEvent, GameConfig, GameEvent, GameMode, Kicks180, Leveling, Playback, Pos, PresetName, Replay, RotationSystemKind, State } from "./types";
+import {
+  Down,
+  Drop,
+  GarbageOut,
+  Hold,
+  Move,
+  Pause,
+  Restart,
+  RetryOnFault,
+  Rotate,
+  UseKicks180,
+  createState,
+  reduceFrame,
+} from "./state";
+import { firstFilledCol, lastFilledCol, range } from "./utils";
+import { LOCK_DOWNS, MESSINESSES, Presets, RANDOMIZERS } from "./presets";
+import { Constants } from "./const";
+import { isPieceSet } from "./pieces";
+
+const REPLAY_VERSION = 13;
+const CHECKPOINT_FRAMES = 300; // Number of frames between each snapshot of the state
+
+const ROTATION_SYSTEMS: ReadonlyArray<RotationSystemKind> = ["srs", "ars", "nrs"];
+const KICKS_180: ReadonlyArray<Kicks180> = ["none", "srs+", "top"];
+const PRESETS: ReadonlyArray<PresetName> = ["modern", "classic", "master", "custom"];
+const LEVELINGS: ReadonlyArray<Leveling> = ["lines", "nes", "sections"];
+const SCORINGS: ReadonlyArray<GameConfig["scoring"]> = ["guideline", "classic", "master"];
+
+// What the values read back from a replay have to be.
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+const isWhole = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+const isOneOf = <T>(values: ReadonlyArray<T>) => (value: unknown): value is T => values.includes(value as T);
+
+/**
+ * @param {unknown} value - A mode, as read back from a replay.
+ * @returns {boolean} Whether it is a mode we can play.
+ */
+const isMode = (value: unknown): value is GameMode => {
+  if (!isRecord(value)) return false;
+  const { kind, lines, frames, rows } = value;
+  return (
+    kind === "marathon" ||
+    (kind === "sprint" && isWhole(lines)) ||
+    (kind === "ultra" && isWhole(frames)) ||
+    (kind === "dig" && isWhole(lines) && isWhole(rows))
+  );
+};
+
+/**
+ * @param {(entry: unknown) => boolean} isEntry - What every entry of the table has to be.
+ * @returns {(value: unknown) => boolean} A function that checks a level table, which needs at least one entry.
+ */
+const isLevelTable = (isEntry: (entry: unknown) => boolean) => (value: unknown): boolean =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((row) => Array.isArray(row) && row.length === 2 && isWhole(row[0]) && isEntry(row[1]));
+
+const isGravity = (value: unknown) =>
+  isRecord(value) && isNumber(value.rows) && value.rows > 0 && isNumber(value.frames) && value.frames > 0;
+const isTimings = (value: unknown) =>
+  isRecord(value) &&
+  isWhole(value.are) &&
+  isWhole(value.lineClearDelay) &&
+  isNumber(value.lockDelay) &&
+  value.lockDelay >= 0 &&
+  isOneOf(LOCK_DOWNS)(value.lockDown);
+
+/**
+ * Checks the rules all the way through, as a game by them is only played back once they pass:
+ * the board has to be one the start menu allows, fitting the widest piece, and the pieces have to be
+ * a set the game comes with or one that parsePieces would have read.
+ *
+ * @param {unknown} value - The rules, as read back from a replay.
+ * @returns {boolean} Whether a game can be played by them.
+ */
+const isConfig = (value: unknown): value is GameConfig => {
+  if (!isRecord(value) || !isRecord(value.board) || !isPieceSet(value.pieces)) return false;
+  const { width, height, buffer } = value.board;
+  const widest = Math.max(...value.pieces.map(({ shape }) => lastFilledCol(shape) - firstFilledCol(shape) + 1));
+  const within = (n: unknown, min: number, max: number) => isWhole(n) && n >= min && n <= max;
+  return (
+    isOneOf(PRESETS)(value.preset) &&
+    isOneOf(ROTATION_SYSTEMS)(value.rotation) &&
+    isOneOf(RANDOMIZERS)(value.randomizer) &&
+    within(value.nextCount, 1, 6) &&
+    isWhole(value.startLevel) &&
+    isOneOf(LEVELINGS)(value.leveling) &&
+    isWhole(value.levelLines) &&
+    (value.leveling === "sections" || value.levelLines > 0) &&
+    (value.lastLevel === undefined || isWhole(value.lastLevel)) &&
+    isLevelTable(isGravity)(value.gravity) &&
+    isLevelTable(isTimings)(value.timings) &&
+    isOneOf(SCORINGS)(value.scoring) &&
+    [value.hold, value.ghost, value.hardDrop, value.lockOnFall].every(isBoolean) &&
+    isOneOf(MESSINESSES)(value.messiness) &&
+    within(width, Math.max(Constants.MIN_WIDTH, widest), Constants.MAX_WIDTH) &&
+    within(height, Constants.MIN_HEIGHT, Constants.MAX_HEIGHT) &&
+    within(buffer, 0, Constants.MAX_BUFFER)
+  );
+};
+
+/**
+ * Encodes a game event into its JSON friendly form.
+ *
+ * @param {GameEvent} e - The event to encode.
+ * @returns {EncodedEvent | undefined} The encoded event, or undefined if it does not need recording.
+ */
+const encodeEvent = (e: GameEvent): EncodedEvent | undefined =>
+  e instanceof Move
+    ? ["move", e.displacement.x, e.displacement.y, e.repeated]
+    : e instanceof Rotate
+    ? ["rotate", e.direction]
+    : e instanceof Drop
+    ? ["drop"]
+    : e instanceof Hold
+    ? ["hold"]
+    : e instanceof Down
+    ? ["down", e.held, e.softDrop]
+    : e instanceof Pause
+    ? ["pause", e.pause]
+    : e instanceof Restart
+    ? ["restart", e.mode ?? null, e.bestTime ?? null, e.rotation ?? null, e.config ?? null]
+    : e instanceof GarbageOut
+    ? ["garbage", e.lines]
+    : e instanceof RetryOnFault
+    ? ["retry", e.enabled]
+    : e instanceof UseKicks180
+    ? ["kicks180", e.kicks]
+    : undefined;
+
+/**
+ * Decodes a game event from its JSON friendly form.
+ *
+ * @param {unknown} e - The encoded event, as read back from a replay.
+ * @returns {GameEvent | undefined} The game event, or undefined if it is not one we know.
+ */
+const decodeEvent = (e: unknown): GameEvent | undefined => {
+  if (!Array.isArray(e)) return undefined;
+  switch (e[0]) {
+    case "move":
+      return isNumber(e[1]) && isNumber(e[2]) && (e[3] === undefined || isBoolean(e[3]))
+        ? new Move(new Pos(e[1], e[2]), e[3] ?? false)
+        : undefined;
+    case "rotate":
+      return isNumber(e[1]) ? new Rotate(e[1]) : undefined;
+    case "drop":
+      return new Drop();
+    case "hold":
+      return new Hold();
+    case "down":
+      return isBoolean(e[1]) && (isNumber(e[2]) || e[2] === "sonic") ? new Down(e[1], e[2]) : undefined;
+    case "pause":
+      return isBoolean(e[1]) ? new Pause(e[1]) : undefined;
+    case "restart":
+      return (e[1] === null || isMode(e[1])) &&
+        (e[2] === null || isWhole(e[2])) &&
+        (e[3] === null || isOneOf(ROTATION_SYSTEMS)(e[3])) &&
+        (e[4] === null || isConfig(e[4]))
+        ? new Restart(e[1] ?? undefined, e[2] ?? undefined, e[3] ?? undefined, e[4] ?? undefined)
+        : undefined;
+    case "garbage":
+      return isWhole(e[1]) ? new GarbageOut(e[1]) : undefined;
+    case "retry":
+      return isBoolean(e[1]) ? new RetryOnFault(e[1]) : undefined;
+    case "kicks180":
+      return isOneOf(KICKS_180)(e[1]) ? new UseKicks180(e[1]) : undefined;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Starts a new recording.
+ *
+ * @param {number} seed - The seed of the game being recorded.
+ * @param {GameMode} mode - Optional. The mode the game started in, marathon by default.
+ * @param {RotationSystemKind} rotation - Optional. The rotation system the game started with, SRS by default.
+ * @param {GameConfig} config - Optional. The rules the game started with, the modern ones by default.
+ * @returns {Replay} A replay without any frames.
+ */
+const emptyReplay = (
+  seed: number,
+  mode: GameMode = { kind: "marathon" },
+  rotation: RotationSystemKind = "srs",
+  config: GameConfig = Presets.modern
+): Replay => ({
+  version: REPLAY_VERSION,
+  seed,
+  mode,
+  rotation,
+  config,
+  frames: 0,
+  inputs: [],
+});
+
+/**
+ * Records a frame onto the replay. Frames without inputs only bump the frame count.
+ *
+ * @param {Replay} replay - The replay so far.
+ * @param {ReadonlyArray<GameEvent>} inputs - The events that came in during the frame.
+ * @returns {Replay} The replay including the frame.
+ */
+const recordFrame = (replay: Replay, inputs: ReadonlyArray<GameEvent>): Replay => {
+  const encoded = inputs
+    .map(encodeEvent)
+    .filter((e): e is EncodedEvent => e !== undefined);
+  return {
+    ...replay,
+    frames: replay.frames + 1,
+    inputs: encoded.length
+      ? [...replay.inputs, [replay.frames, encoded]]
+      : replay.inputs,
+  };
+};
+
+/**
+ * Serialises a replay, so that it can be saved to a file and shared.
+ *
+ * @param {Replay} replay - The replay.
+ * @returns {string} The replay as JSON.
+ */
+const encodeReplay = (replay: Replay): string => JSON.stringify(replay);
+
+/**
+ * Parses a replay that was saved with `encodeReplay`.
+ *
+ * @param {string} json - The replay as JSON.
+ * @returns {Replay | undefined} The replay, or undefined if it is not one we can play back.
+ */
+const decodeReplay = (json: string): Replay | undefined => {
+  try {
+    const replay: unknown = JSON.parse(json);
+    if (!isRecord(replay)) return undefined;
+    const { version, seed, mode, rotation, config, frames, inputs } = replay;
+
+    // Every frame with inputs has to be one of the game's, after the one before it, and every input has to be one we know.
+    const isFrame = (entry: unknown, i: number, all: ReadonlyArray<unknown>) =>
+      Array.isArray(entry) &&
+      isWhole(entry[0]) &&
+      isWhole(frames) &&
+      entry[0] < frames &&
+      (i === 0 || entry[0] > (all[i - 1] as Replay["inputs"][number])[0]) &&
+      Array.isArray(entry[1]) &&
+      entry[1].every((e) => decodeEvent(e) !== undefined);
+
+    return version === REPLAY_VERSION &&
+      Number.isSafeInteger(seed) &&
+      isWhole(frames) &&
+      isMode(mode) &&
+      isOneOf(ROTATION_SYSTEMS)(rotation) &&
+      isConfig(config) &&
+      Array.isArray(inputs) &&
+      inputs.every(isFrame)
+      ? (replay as Replay)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Plays the frames in [from, to) on top of the given state.
+ *
+ * @param {Playback} p - The playback.
+ * @param {State} s - The state at frame `from`.
+ * @param {number} from - The frame to start from.
+ * @param {number} to - The frame to stop at.
+ * @returns {State} The state at frame `to`.
+ */
+const advance = (p: Playback, s: State, from: number, to: number): State =>
+  range(Math.max(to - from, 0)).reduce(
+    (state, i) => reduceFrame(state, p.inputs.get(from + i) ?? []),
+    s
+  );
+
+/**
+ * Gets a replay ready to be played back, taking a snapshot of the state every CHECKPOINT_FRAMES frames.
+ *
+ * @param {Replay} replay - The replay.
+ * @returns {Playback} The playback.
+ */
+const loadPlayback = (replay: Replay): Playback => {
+  const inputs: ReadonlyMap<number, ReadonlyArray<GameEvent>> = new Map(
+    replay.inputs.map(([frame, events]) => [
+      frame,
+      events.map(decodeEvent).filter((e): e is GameEvent => e !== undefined),
+    ])
+  );
+  const withoutCheckpoints: Playback = { replay, inputs, checkpoints: [] };
+  const checkpoints = range(Math.floor(replay.frames / CHECKPOINT_FRAMES)).reduce<
+    ReadonlyArray<State>
+  >(
+    (taken, i) => [
+      ...taken,
+      advance(
+        withoutCheckpoints,
+        taken[i],
+        i * CHECKPOINT_FRAMES,
+        (i + 1) * CHECKPOINT_FRAMES
+      ),
+    ],
+    [createState(replay.seed, replay.mode, replay.rotation, replay.config)]
+  );
+  return { ...withoutCheckpoints, checkpoints };
+};
+
+/**
+ * Computes the state of the game at any frame of the playback, starting from the closest snapshot.
+ *
+ * @param {Playback} p - The playback.
+ * @returns {(frame: number) => State} A function that takes the frame number.
+ */
+const stateAt = (p: Playback) => (frame: number): State => {
+  const target = Math.min(Math.max(frame, 0), p.replay.frames);
+  const checkpoint = Math.min(
+    Math.floor(target / CHECKPOINT_FRAMES),
+    p.checkpoints.length - 1
+  );
+  return advance(
+    p,
+    p.checkpoints[checkpoint],
+    checkpoint * CHECKPOINT_FRAMES,
+    target
+  );
+};
@@ -0,0 +1,164 @@
+/**
+ *
+ * File that contains the guideline scoring rules: T-spins, combos, back-to-back and perfect clears,
+ * along with the classic (NES) and master (TGM) scoring which only count the lines.
+ * The idea behind: https://tetris.wiki/Scoring#Recent_guideline_compatible_games
+ * @author Yu Kogure.
+ *
+ */
+
+export { detectTSpin, isPerfectClear, isDifficult, scoreClear, scoreClassic, scoreMaster, Points };
+
+import { TBlock, Tetromino } from "./tetrominos";
+import { Clear, Floor, Pos, TSpin } from "./types";
+import { lookup, simillarMatrix, withinBound } from "./utils";
+
+/**
+ * Points awarded for each kind of clear, indexed by the number of lines cleared (multiplied by the level, or 1 at level 0).
+ */
+const Points = {
+  LINES: [0, 100, 300, 500, 800],
+  CLASSIC: [0, 40, 100, 300, 1200], // Multiplied by the level plus one, as classic starts from level 0
+  MINI: [100, 200, 400],
+  TSPIN: [400, 800, 1200, 1600],
+  PERFECT_CLEAR: [0, 800, 1200, 1800, 2000],
+  B2B_PERFECT_TETRIS: 3200,
+  COMBO: 50,
+  SOFT_DROP: 1, // per row
+  HARD_DROP: 2, // per row
+  B2B_MULTIPLIER: 1.5,
+  BRAVO: 4, // Master multiplies the points of a perfect clear by this
+} as const;
+
+// Diagonal corners around the centre of a T, clockwise from the top left.
+const CORNERS: ReadonlyArray<Pos> = [
+  new Pos(-1, -1),
+  new Pos(1, -1),
+  new Pos(1, 1),
+  new Pos(-1, 1),
+];
+
+// The kick SRS uses to reach a T-spin triple slot with a quarter turn, which always counts as a full T-spin.
+const TST_KICK = 4;
+
+/**
+ * Detects a T-spin using the 3-corner rule: the last successful action on a T must be a rotation,
+ * and at least 3 of the corners around its centre must be filled (walls and the ground count).
+ *
+ * @param {Tetromino} active - The Tetromino that is being locked.
+ * @param {Floor} f - The floor before the Tetromino is merged.
+ * @param {number} lastKick - The wall kick used by the last rotation, -1 if the last action was not one.
+ * @param {number} lastTurn - The quarter turns of the last rotation, as the kicks of a half turn come from a table
+ * of their own.
+ * @returns {TSpin} The kind of T-spin, if any.
+ */
+const detectTSpin = (active: Tetromino, f: Floor, lastKick: number, lastTurn: number): TSpin => {
+  if (lastKick < 0 || !simillarMatrix(active.shape)(TBlock)) return "none";
+
+  const centre = active.pos.add(new Pos(1, 1));
+  const isInFloor = withinBound(f);
+  // Anything outside of the floor counts as filled, except for the space above it.
+  const isFilled = ({ x, y }: Pos) =>
+    y < 0 ? !isInFloor(x, 0) : !isInFloor(x, y) || Boolean(f[y][x]);
+  const filled = CORNERS.map((corner) => isFilled(centre.add(corner)));
+  if (filled.filter(Boolean).length < 3) return "none";
+
+  // The two corners next to the pointy side of the T, which rotates along with it.
+  const front = [active.rotationState, (active.rotationState + 1) % 4];
+  const tstKick = active.system === "srs" && Math.abs(lastTurn) === 1 && lastKick === TST_KICK;
+  return front.every((i) => filled[i]) || tstKick ? "full" : "mini";
+};
+
+/**
+ * Checks whether the floor is completely empty.
+ *
+ * @param {Floor} f - The floor after the clear.
+ * @returns {boolean} True if there is nothing left on the floor.
+ */
+const isPerfectClear = (f: Floor): boolean => !f.some((row) => row.some(Boolean));
+
+/**
+ * Tetrises and T-spins that clear lines are "difficult" clears, which chain into back-to-backs.
+ *
+ * @param {number} lines - The number of lines cleared.
+ * @param {TSpin} tSpin - The kind of T-spin performed.
+ * @returns {boolean} True if the clear is difficult.
+ */
+const isDifficult = (lines: number, tSpin: TSpin): boolean =>
+  lines === 4 || (tSpin !== "none" && lines > 0);
+
+/**
+ * Scores a lock, keeping track of the combo and back-to-back chains.
+ *
+ * @param {Readonly<{ combo: number, backToBack: boolean, level: number }>} chain - The chains before the lock,
+ * and the current level.
+ * @param {number} lines - The number of lines cleared by the lock.
+ * @param {TSpin} tSpin - The kind of T-spin performed.
+ * @param {boolean} perfectClear - Whether the lock cleared the whole floor.
+ * @returns {Clear} What happened, including the points it is worth.
+ */
+const scoreClear = (
+  { combo, backToBack, level }: Readonly<{ combo: number; backToBack: boolean; level: number }>,
+  lines: number,
+  tSpin: TSpin,
+  perfectClear: boolean
+): Clear => {
+  const isBackToBack = isDifficult(lines, tSpin) && backToBack;
+  const newCombo = lines > 0 ? combo + 1 : -1;
+
+  const base = lookup(
+    tSpin === "full" ? Points.TSPIN : tSpin === "mini" ? Points.MINI : Points.LINES
+  )(lines);
+  const bonus =
+    !perfectClear
+      ? 0
+      : isBackToBack && lines === 4
+      ? Points.B2B_PERFECT_TETRIS
+      : lookup(Points.PERFECT_CLEAR)(lines);
+  const comboPoints = Points.COMBO * Math.max(newCombo, 0);
+
+  return {
+    lines,
+    tSpin,
+    perfectClear,
+    combo: newCombo,
+    backToBack: isBackToBack,
+    points:
+      Math.max(level, 1) *
+      (Math.floor(base * (isBackToBack ? Points.B2B_MULTIPLIER : 1)) + bonus + comboPoints),
+  };
+};
+
+/**
+ * Scores a lock by the classic rules, where nothing but the lines cleared counts.
+ *
+ * @param {number} level - The level before the lock.
+ * @param {number} lines - The number of lines cleared by the lock.
+ * @returns {Clear} What happened, including the points it is worth.
+ */
+const scoreClassic = (level: number, lines: number): Clear => ({
+  lines,
+  tSpin: "none",
+  perfectClear: false,
+  combo: -1,
+  backToBack: false,
+  points: (level + 1) * lookup(Points.CLASSIC)(lines),
+});
+
+/**
+ * Scores a lock by the master rules, where the lines count for more the further into the game they are cleared.
+ * The idea behind: https://tetris.wiki/Tetris_The_Grand_Master#Scoring
+ *
+ * @param {number} level - The level before the lock.
+ * @param {number} lines - The number of lines cleared by the lock.
+ * @param {boolean} perfectClear - Whether the lock cleared the whole floor.
+ * @returns {Clear} What happened, including the points it is worth.
+ */
+const scoreMaster = (level: number, lines: number, perfectClear: boolean): Clear => ({
+  lines,
+  tSpin: "none",
+  perfectClear,
+  combo: -1,
+  backToBack: false,
+  points: Math.ceil((level + lines) / 4) * lines * (perfectClear ? Points.BRAVO : 1),
+});
@@ -7,7 +7,10 @@
 
 export {
   initialState,
+  createState,
   reduceState,
+  reduceFrame,
+  frameEvents,
   Tick,
   Rotate,
   Move,
@@ -18,203 +21,505 @@ export {
   Pause,
   Down,
   Connect,
-  GarbageOut
+  GarbageOut,
+  RetryOnFault,
+  UseKicks180
 };
 
-import { Constants, GRAVITY } from "./const";
+import { Constants } from "./const";
 import { Tetromino, TetrominoFactory } from "./tetrominos";
-import { GameEvent, Floor, Pos, State, TetrominoColour, LazyRNG } from "./types";
-import { lazyRNG, pipe, range, withinBound } from "./utils";
+import { GameEvent, Floor, Pos, State, TetrominoColour, Randomizer, GameMode, Messiness, SoftDrop, Kicks180, RotationSystemKind, Gravity, Timings, GameConfig, Board } from "./types";
+import { atLevel, lastFilledRow, pipe, range, withinBound } from "./utils";
+import { makeRandomizer } from "./randomizer";
+import { Points, detectTSpin, isDifficult, isPerfectClear, scoreClassic, scoreClear, scoreMaster } from "./scoring";
+import { attackOf, cancelGarbage, garbageRNG, garbageRows } from "./garbage";
+import { faultsOf, judgeFinesse } from "./finesse";
+import { countKey, countPiece, emptyStats } from "./stats";
+import { nextLevel } from "./master";
+import { Presets } from "./presets";
 
 /**
  * Create a new floor, and fill in with a supplied value.
  *
  * @param {number} height - The number of rows in the floor.
+ * @param {number} width - The number of columns in the floor.
  * @param {TetrominoColour} colour - Optional. The colour to fill in the floor with.
  * @returns {Floor} The new floor.
  */
-const makeFloor = (height: number) => (colour?: TetrominoColour): Floor =>
+const makeFloor = (height: number, width: number) => (colour?: TetrominoColour): Floor =>
   range(height).map(() =>
-    range(Constants.GRID_WIDTH).map((_) => colour ? colour : 0)
+    range(width).map((_) => colour ? colour : 0)
   );
 
 const gameEnd = (f: Floor) => f[0].some(Boolean);
-const makeEmptyFloor = makeFloor(Constants.GRID_HEIGHT);
+const isGarbageRow = (row: Floor[number]) => row.includes("brown");
+const makeEmptyFloor = ({ width, height, buffer }: Board) => makeFloor(buffer + height, width)(); // The buffer rows on top
 
 // Common state processors
 const updateHighlight = (s: State) => ({...s, highlight: s.active.drop(s.floor)}); // Updating the ghost piece
 const rolloverRng = (s: State) => {
   const rng = s.rng.next();
-  return {...s, rng, next: getNextTetromino(rng), active: getTetromino(rng.value)}; // Rolling over the RNG and tetrominos
+  return {...s, rng, active: s.queue[0], queue: [...s.queue.slice(1), getTetromino(rng.value, s.config.pieces, s.config.board, s.rotation)]}; // Rolling over the RNG and the queue
 }
 
-const reset = (key: string) => (s: State) => ({...s, [key]: 0}); // Reset the given key to 0
-const resetLock = reset("lockDelayCount");
-const resetGravity = reset("gravityOffset");
+const addScore = (points: number) => (s: State) => ({
+  ...s,
+  score: s.score + points,
+  highScore: Math.max(s.highScore, s.score + points),
+}); // Award points, keeping the high score up to date
+
+/**
+ * Works out the level after a lock. By lines, the level goes up every so many lines from the start level.
+ * The NES way, the first level up takes longer the higher the game started, and then comes every so many lines.
+ * By sections, every piece and every line counts.
+ *
+ * @param {State} s - The state before the lock.
+ * @param {number} lines - The number of lines cleared by the lock.
+ * @returns {number} The level.
+ */
+const levelAfter = (s: State, lines: number): number => {
+  const { leveling, levelLines, startLevel } = s.config;
+  const cleared = s.cleared + lines;
+  if (leveling === "sections") return nextLevel(s.level, lines);
+  if (leveling === "lines") return startLevel + Math.floor(cleared / levelLines);
+  const first = Math.min(startLevel * levelLines + levelLines, Math.max(100, startLevel * levelLines - 50));
+  return cleared < first ? startLevel : startLevel + 1 + Math.floor((cleared - first) / levelLines);
+};
+
+// How fast pieces fall at the current level.
+const gravityOf = (s: State): Gravity => atLevel(s.config.gravity)(s.level);
+
+// The delays in play, which the rules may tighten level by level.
+const timingsOf = (s: State): Timings => atLevel(s.config.timings)(s.level);
+
+// At 20G (or faster) a piece falls the whole grid in a frame, so it comes in already dropped.
+const settle = (s: State): State => {
+  const { rows, frames } = gravityOf(s);
+  return rows >= frames * s.floor.length ? { ...s, active: s.active.drop(s.floor) } : s;
+};
+
+// A piece that comes in on top of the stack has nowhere to go, which tops the game out (a block out).
+const blockOut = (s: State): State => (s.active.overlaps(s.floor) ? { ...s, gameEnd: true } : s);
 
-const getTetromino = TetrominoFactory.getTetromino; // just an alias
 /**
- * Gets the next tetromino in line
+ * Keeps the floor topped up with garbage in dig mode, until every line of the goal has come up.
  *
- * @param {rng} LazyRNG - The lazy rng sequence.
- * @returns {Tetromino} The next tetromino.
+ * @param {State} s - The current state.
+ * @returns {State} The state with the missing garbage rows added.
  */
-const getNextTetromino = (rng: LazyRNG): Tetromino => getTetromino(rng.next().value);
-
-// Set up the initial state of the game
-const rollingRNG = lazyRNG(Constants.SEED);
-const floor = makeEmptyFloor();
-const active = getTetromino(rollingRNG.value);
-const initialState: State = {
-  gameEnd: false,
-  score: 0,
-  highScore: 0,
-  level: 1,
-  floor,
-  rng: rollingRNG,
-  active,
-  next: getNextTetromino(rollingRNG),
-  cleared: 0,
+const replenishGarbage = (s: State): State => {
+  if (s.mode.kind !== "dig") return s;
+  // Small boards keep fewer rows, so that there is still room to play.
+  const onFloor = s.floor.filter(isGarbageRow).length;
+  const missing = Math.min(
+    Math.min(s.mode.rows, Math.floor(s.config.board.height / 2)) - onFloor,
+    s.mode.lines - s.garbageCleared - onFloor
+  );
+  return missing > 0 ? GarbageOut.insert(missing, Constants.DIG_MESSINESS)(s) : s;
+};
+
+// A key pressed for the active piece, which counts towards both its finesse and the stats.
+const pressKey = (s: State): State => countKey({ ...s, pieceInputs: s.pieceInputs + 1 });
+
+const bottomRow = (t: Tetromino) => t.pos.y + lastFilledRow(t.shape); // The row of the lowest cell of a piece
+
+// Start the lock delay over for a new active piece.
+const resetLock = (s: State): State => ({
+  ...s,
   lockDelayCount: 0,
-  highlight: active.drop(floor),
-  swapped: false,
-  isPaused: false,
-  gravityOffset: 0,
-  framesInCurrentRow: 0,
-  opponentConnected: false,
-  recentClear: 0,
-} as const;
+  lockResets: 0,
+  lowestRow: bottomRow(s.active),
+});
+
+/**
+ * Puts off the locking of the active piece after it moves or turns, as far as the lock-down mode allows.
+ *
+ * @param {State} before - The state before the piece moved or turned.
+ * @returns {(s: State) => State} A function that takes the state after the piece moved or turned.
+ */
+const putOffLock = (before: State) => (s: State): State => {
+  const grounded = !before.active.moveBy(new Pos(0, 1)).validPos(before.floor);
+  switch (timingsOf(s).lockDown) {
+    case "infinite":
+      return { ...s, lockDelayCount: 0 };
+    case "classic":
+      return s.active.pos.y > before.active.pos.y ? { ...s, lockDelayCount: 0 } : s;
+    case "extended":
+      // Reaching a new lowest row gives the piece all of its resets back.
+      return bottomRow(s.active) > s.lowestRow
+        ? resetLock(s)
+        : grounded && s.lockResets < Constants.LOCK_RESETS
+        ? { ...s, lockDelayCount: 0, lockResets: s.lockResets + 1 }
+        : s;
+  }
+};
+
+const getTetromino = TetrominoFactory.getTetromino; // just an alias
+/**
+ * Deals the next few tetrominos in line.
+ *
+ * @param {Randomizer} rng - The randomizer dealing the pieces.
+ * @param {number} n - The number of tetrominos to deal.
+ * @param {RotationSystemKind} rotation - The rotation system the tetrominos spawn in.
+ * @param {GameConfig} config - The rules, whose set the tetrominos are of and whose board they spawn on.
+ * @returns {Readonly<[ReadonlyArray<Tetromino>, Randomizer]>} The tetrominos dealt, and the randomizer
+ * positioned at the last of them.
+ */
+const deal = (
+  rng: Randomizer,
+  n: number,
+  rotation: RotationSystemKind,
+  { pieces, board }: GameConfig
+): Readonly<[ReadonlyArray<Tetromino>, Randomizer]> =>
+  range(n).reduce<Readonly<[ReadonlyArray<Tetromino>, Randomizer]>>(
+    ([queue, r]) => [[...queue, getTetromino(r.next().value, pieces, board, rotation)], r.next()],
+    [[], rng]
+  );
+
+/**
+ * Deals the first pieces of a game: the active one, and the queue after it.
+ *
+ * @param {number} seed - The seed for the pieces.
+ * @param {RotationSystemKind} rotation - The rotation system the pieces spawn in.
+ * @param {GameConfig} config - The rules, whose randomizer deals the pieces.
+ * @returns {Pick<State, "active" | "queue" | "rng">} The active piece, the queue, and the randomizer
+ * positioned at the last of the queue.
+ */
+const dealFirst = (
+  seed: number,
+  rotation: RotationSystemKind,
+  config: GameConfig
+): Pick<State, "active" | "queue" | "rng"> => {
+  const firstRNG = makeRandomizer(config.randomizer, config.pieces)(seed);
+  const [queue, rng] = deal(firstRNG, config.nextCount, rotation, config);
+  return { active: getTetromino(firstRNG.value, config.pieces, config.board, rotation), queue, rng };
+};
+
+/**
+ * Sets up the initial state of a game. Everything that happens afterwards is decided by the events,
+ * so the same seed and events always play out the same game.
+ *
+ * @param {number} seed - The seed for the pieces and the garbage.
+ * @param {GameMode} mode - Optional. The mode to play, marathon by default.
+ * @param {RotationSystemKind} rotation - Optional. The rotation system to play with, SRS by default.
+ * @param {GameConfig} config - Optional. The rules to play by, the modern ones by default.
+ * @returns {State} The initial state of the game.
+ */
+const createState = (
+  seed: number,
+  mode: GameMode = { kind: "marathon" },
+  rotation: RotationSystemKind = "srs",
+  config: GameConfig = Presets.modern
+): State => {
+  const { active, queue, rng } = dealFirst(seed, rotation, config);
+  const floor = makeEmptyFloor(config.board);
+  return pipe({
+    gameEnd: false,
+    score: 0,
+    highScore: 0,
+    level: config.startLevel,
+    floor,
+    rng,
+    active,
+    queue,
+    cleared: 0,
+    lockDelayCount: 0,
+    lockResets: 0,
+    lowestRow: bottomRow(active),
+    entryDelay: 0,
+    initialRotation: 0,
+    initialHold: false,
+    highlight: active.drop(floor),
+    swapped: false,
+    isPaused: false,
+    framesInCurrentRow: 0,
+    opponentConnected: false,
+    garbageQueue: [],
+    garbageSent: 0,
+    garbageRng: garbageRNG(seed),
+    garbageHole: 0,
+    garbageCleared: 0,
+    combo: -1,
+    backToBack: false,
+    mode,
+    frames: 0,
+    restarts: 0,
+    splits: [],
+    completed: false,
+    lastKick: -1,
+    lastTurn: 0,
+    pieceInputs: 0,
+    finesseFaults: 0,
+    retryOnFault: false,
+    kicks180: "srs+",
+    rotation,
+    config,
+    stats: emptyStats,
+  }, replenishGarbage, settle, updateHighlight);
+};
+
+const initialState: State = createState(Constants.SEED);
 
 class Tick implements GameEvent {
 
   /**
    * Updates the game state's elapsed time and checks if the active Tetromino should move down by the
-   * principle of gravity.
+   * principle of gravity. Also ends timed modes once their time is up.
    *
    * @param {State} s - Current game state.
    * @returns {State} The new state after the tick.
    */
   consume = (s: State): State => {
-    // increment how long it has already been at the row
+    // increment how long it has already been at the row, and in the game
     const newState = {
       ...s,
       framesInCurrentRow: 1 + s.framesInCurrentRow,
+      frames: 1 + s.frames,
     };
 
-    // if tetromino should drop now, then drop
-    return newState.framesInCurrentRow >=
-      GRAVITY[Math.min(s.level - 1 + s.gravityOffset, GRAVITY.length - 1)]
-      ? new Move(new Pos(0, 1)).consume({
-          ...newState,
-          framesInCurrentRow: 0,
-        })
-      : newState;
+    // Ultra ends as soon as the time is up, whatever the board looks like.
+    if (s.mode.kind === "ultra" && newState.frames >= s.mode.frames) {
+      return { ...newState, gameEnd: true, completed: true };
+    }
+
+    // Nothing falls until the next piece enters, which is when the holds and rotations pressed meanwhile are made.
+    if (s.entryDelay > 0) {
+      return s.entryDelay > 1
+        ? { ...newState, entryDelay: s.entryDelay - 1, framesInCurrentRow: 0 }
+        : Tick.enter({ ...newState, entryDelay: 0, framesInCurrentRow: 0 });
+    }
+
+    // if tetromino should drop now, then drop. A soft drop divides the time it takes to fall a row,
+    // which can be less than a frame i.e. several rows a frame, and a sonic drop falls all the way.
+    // Whatever part of a row is left over carries on to the next, so that fractions of G add up.
+    const gravity = gravityOf(s);
+    const factor = s.softDrop === "sonic" ? Infinity : s.softDrop ?? 1;
+    const rows =
+      factor === Infinity
+        ? s.floor.length
+        : Math.floor((newState.framesInCurrentRow * factor * gravity.rows) / gravity.frames);
+    if (rows < 1) {
+      return newState;
+    }
+    const framesLeft =
+      factor === Infinity ? 0 : newState.framesInCurrentRow - (rows * gravity.frames) / (factor * gravity.rows);
+    // Without a lock delay, a grounded piece locks as soon as it is due to fall.
+    if (s.config.lockOnFall && !s.active.moveBy(new Pos(0, 1)).validPos(s.floor)) {
+      return LockDelay.activate({ ...newState, framesInCurrentRow: framesLeft });
+    }
+    const dropped = range(rows).reduce(
+      (state) => new Move(new Pos(0, 1)).consume(state),
+      { ...newState, framesInCurrentRow: framesLeft }
+    );
+
+    // Soft dropping i.e. falling faster than the level's gravity is worth some points for every row.
+    const fallen = dropped.active.pos.y - newState.active.pos.y;
+    return s.softDrop !== undefined && fallen > 0
+      ? addScore(Points.SOFT_DROP * fallen)(dropped)
+      : dropped;
   };
+
+  /**
+   * Brings the active piece into play after the entry delay, making the initial hold (IHS) and then
+   * the initial rotation (IRS) that were pressed during the delay.
+   *
+   * @param {State} s - The state as the entry delay runs out.
+   * @returns {State} The state with the active piece in play.
+   */
+  static enter = (s: State): State =>
+    pipe(
+      { ...s, initialRotation: 0, initialHold: false },
+      (state: State) => (s.initialHold ? new Hold().consume(state) : state),
+      (state: State) => (s.initialRotation % 4 ? new Rotate(s.initialRotation).consume(state) : state)
+    );
 }
 
 class Down implements GameEvent {
-  constructor(public readonly increasing: boolean) {}
+  constructor(
+    public readonly held: boolean,
+    public readonly softDrop: SoftDrop = Constants.SOFT_DROP
+  ) {}
 
   /**
-   * Adjusts the gravity offset based on the `increasing` value.
+   * Starts or stops soft dropping, depending on whether the key is `held`. The row starts over
+   * when a soft drop starts, so the time already spent in it is not sped up all at once.
    *
    * @param {State} s - The current state.
    * @returns {State} The new state after the event.
    */
   consume = (s: State): State =>
-    this.increasing
-      ? { ...s, gravityOffset: s.gravityOffset + 1 }
-      : resetGravity(s);
+    this.held
+      ? {
+          ...s,
+          softDrop: this.softDrop,
+          framesInCurrentRow: s.softDrop === undefined ? 0 : s.framesInCurrentRow,
+        }
+      : { ...s, softDrop: undefined };
 }
 
 class Move implements GameEvent {
-  constructor(public readonly displacement: Pos) {}
+  constructor(
+    public readonly displacement: Pos,
+    public readonly repeated: boolean = false // Whether it is an auto repeat of a held key
+  ) {}
 
   /**
-   * Moves the active Tetromino if the move is valid.
+   * Moves the active Tetromino if the move is valid. Sideways moves pressed by the player count
+   * towards the finesse of the piece, whether they go anywhere or not. Nothing moves before the piece enters.
    *
    * @param {State} s - The current state.
    * @returns {State} The new state after the event.
    */
-  consume = (s: State): State =>
-    s.active.moveBy(this.displacement).validPos(s.floor)
-      ? updateHighlight({
-          ...s,
+  consume = (s: State): State => {
+    if (s.entryDelay > 0) return s;
+    const pressed = this.displacement.x !== 0 && !this.repeated ? pressKey(s) : s;
+    return s.active.moveBy(this.displacement).validPos(s.floor)
+      ? pipe({
+          ...pressed,
           active: s.active.moveBy(this.displacement),
-        })
-      : s;
+          lastKick: -1,
+        }, putOffLock(s), updateHighlight)
+      : pressed;
+  };
 }
 
 class Rotate implements GameEvent {
   constructor(public readonly direction: number) {}
 
   /**
-   * Rotates the active Tetromino based on the specified direction.
+   * Rotates the active Tetromino based on the specified direction. Before the piece enters,
+   * the rotation is saved up for when it does.
    *
    * @param {State} s - The current state.
    * @returns {State} The new state after the event.
    */
   consume = (s: State): State => {
-    const rotated = this.direction > 0
-      ? s.active.rotateRight(s.floor)
-      : s.active.rotateLeft(s.floor);
-    return updateHighlight({
-      ...s,
-      active: rotated,
-    });
+    if (s.entryDelay > 0) {
+      return { ...s, initialRotation: s.initialRotation + this.direction };
+    }
+    const [rotated, kick] = s.active.rotate(this.direction, s.floor, s.kicks180);
+    const pressed = pressKey(s);
+    return kick < 0
+      ? pressed
+      : pipe({
+          ...pressed,
+          active: rotated,
+          lastKick: kick, // Remember the kick, which decides between T-spins and minis
+          lastTurn: this.direction,
+        }, putOffLock(s), updateHighlight);
   };
 }
 
 class LockDelay implements GameEvent {
   /**
    * Delays an instant lock until the right time to allow for leeway.
+   * In the extended lock-down, a piece out of resets locks as soon as it is grounded.
+   * Without a lock delay, the locking is left to gravity.
    *
    * @param {State} s - Current game state.
    * @returns {State} The new state after the lock delay.
    */
   consume = (s: State): State => {
+    if (s.entryDelay > 0 || s.config.lockOnFall) return s;
+
     // increment our current lock delay tracker.
     const canMoveDown = s.active.moveBy(new Pos(0, 1)).validPos(s.floor);
     const newState = canMoveDown
       ? s
       : { ...s, lockDelayCount: s.lockDelayCount + Constants.FRAME_MS };
+    const { lockDelay, lockDown } = timingsOf(s);
+    const outOfResets = lockDown === "extended" && s.lockResets >= Constants.LOCK_RESETS;
 
     // if we are no longer allowed to delay any longer, lock it up.
-    return newState.lockDelayCount >= Constants.LOCK_DELAY && !canMoveDown
+    return (newState.lockDelayCount >= lockDelay || outOfResets) && !canMoveDown
       ? LockDelay.activate(newState)
       : newState;
   };
 
   /**
    * Activates the lock delay event, merging the Tetromino into the game floor, 
-   * computing state information, and potentially ending the game.
+   * scoring the clear, computing state information, and potentially ending the game.
    *
    * @param {State} s - The current state of the game.
    * @returns {State} The updated state after activating the lock delay event.
    */
   static activate = (s: State): State => {
+    // Judge the finesse of the piece. When practising, a piece placed with wasted inputs goes back to the top.
+    const finesse = judgeFinesse(s.active, s.floor, s.pieceInputs, s.config.board);
+    const faults = faultsOf(finesse);
+    if (s.retryOnFault && faults > 0) {
+      return pipe({
+        ...s,
+        active: TetrominoFactory.respawn(s.active, s.config.board),
+        framesInCurrentRow: 0,
+        lastKick: -1,
+        pieceInputs: 0,
+        finesseFaults: s.finesseFaults + faults,
+        lastFinesse: finesse,
+      }, resetLock, updateHighlight);
+    }
+
     // Update the floor, dealing with merge and clears.
     const floor = LockDelay.merge(s.active, s.floor);
     const [rowsCleared, newFloor]: Readonly<[number, Floor]> =
       LockDelay.clear(floor);
-      
-    const score = s.score + 100 * Math.pow(rowsCleared, 2);
-    const newLevel =
-      1 + Math.floor((s.cleared + rowsCleared) / Constants.LEVEL_CUTOFF);
+    const garbageCleared =
+      s.garbageCleared + floor.filter((row) => row.every(Boolean) && isGarbageRow(row)).length;
+
+    // Score based on how the piece got there, and the chains so far. Classic and master scoring only count the lines.
+    const perfectClear = rowsCleared > 0 && isPerfectClear(newFloor);
+    const clear =
+      s.config.scoring === "classic"
+        ? scoreClassic(s.level, rowsCleared)
+        : s.config.scoring === "master"
+        ? scoreMaster(s.level, rowsCleared, perfectClear)
+        : scoreClear(s, rowsCleared, detectTSpin(s.active, s.floor, s.lastKick, s.lastTurn), perfectClear);
+    const cleared = s.cleared + rowsCleared;
+    const newLevel = levelAfter(s, rowsCleared);
+
+    // Take a split for every SPLIT_LINES lines, and finish once we reach the line target of the mode.
+    const splitsTaken =
+      Math.floor(cleared / Constants.SPLIT_LINES) -
+      Math.floor(s.cleared / Constants.SPLIT_LINES);
+    const completed =
+      (s.mode.kind === "sprint" && cleared >= s.mode.lines) ||
+      (s.mode.kind === "dig" && garbageCleared >= s.mode.lines) ||
+      (s.config.lastLevel !== undefined && newLevel >= s.config.lastLevel);
+
+    // Our attack cancels incoming garbage first, and whatever is left over is sent.
+    // Garbage that survives only comes up if this lock did not clear anything.
+    const [garbageQueue, sent] = cancelGarbage(s.garbageQueue, attackOf(clear));
+    const receiveGarbage = rowsCleared === 0 ? GarbageOut.receive : (state: State) => state;
     
     const newState = pipe({
-      ...s,
+      ...pipe(s, addScore(clear.points), countPiece(attackOf(clear))),
       floor: newFloor,
-      score,
-      cleared: s.cleared + rowsCleared,
+      cleared,
+      garbageCleared,
       level: newLevel,
+      splits: [...s.splits, ...range(splitsTaken).map(() => s.frames)],
+      completed,
+      bestTime:
+        completed && (s.bestTime === undefined || s.frames < s.bestTime)
+          ? s.frames
+          : s.bestTime,
       swapped: false,
-      highScore: Math.max(s.highScore, score),
-      recentClear: rowsCleared, // Save the clear.
-    }, resetGravity, resetLock, rolloverRng, updateHighlight);
-
-    return gameEnd(floor)
-      ? { ...newState, gameEnd: true, next: s.next } // Reset next back to not roll over the preview.
+      garbageQueue,
+      garbageSent: s.garbageSent + sent, // A running total, so that the opponent can tell each attack apart.
+      combo: clear.combo,
+      backToBack: rowsCleared > 0 ? isDifficult(rowsCleared, clear.tSpin) : s.backToBack,
+      lastKick: -1,
+      lastClear: rowsCleared > 0 || clear.tSpin !== "none" ? clear : s.lastClear,
+      pieceInputs: 0,
+      finesseFaults: s.finesseFaults + faults,
+      lastFinesse: finesse ?? s.lastFinesse,
+      entryDelay: timingsOf(s).are + (rowsCleared > 0 ? timingsOf(s).lineClearDelay : 0),
+    }, receiveGarbage, replenishGarbage, rolloverRng, blockOut, settle, resetLock, updateHighlight);
+
+    // A piece locked out of sight i.e. entirely in the buffer tops the game out too (a lock out).
+    const lockOut = bottomRow(s.active) < s.config.board.buffer;
+    return gameEnd(floor) || lockOut || newState.gameEnd || completed
+      ? { ...newState, gameEnd: true, queue: s.queue } // Reset queue back to not roll over the preview.
       : newState;
   };
 
@@ -249,7 +554,7 @@ class LockDelay implements GameEvent {
   static clear = (f: Floor): Readonly<[number, Floor]> => {
     const remaining = f.filter((row) => !row.every(Boolean));
     const cleared = f.length - remaining.length;
-    const fresh: Floor = makeFloor(cleared)();
+    const fresh: Floor = makeFloor(cleared, f[0].length)();
     return [cleared, [...fresh, ...remaining]]; // Combine the empty and remaining rows.
   };
 }
@@ -262,15 +567,22 @@ class Hold implements GameEvent {
    * @returns {State} The new state after the hold event.
    */
   consume = (s: State): State => {
-    // only 1 swap is allowed before the next drop
-    if (s.swapped) {
+    // only 1 swap is allowed before the next drop, and none at all if the rules have no hold
+    if (s.swapped || !s.config.hold) {
       return s;
     }
 
+    // Before the piece enters, the hold is saved up for when it does.
+    if (s.entryDelay > 0) {
+      return { ...s, initialHold: true };
+    }
+
     const swappedState = {
-      ...s,
-      hold: getTetromino(s.rng.value),
+      ...countKey(s),
+      hold: TetrominoFactory.respawn(s.active, s.config.board),
       swapped: true,
+      lastKick: -1,
+      pieceInputs: 0, // The piece coming out starts from scratch
     };
 
     // If there's a Tetromino in the hold, swap with active.
@@ -279,14 +591,14 @@ class Hold implements GameEvent {
       return pipe({
         ...swappedState,
         active: s.hold,
-      }, resetGravity, resetLock, updateHighlight);
+      }, settle, resetLock, updateHighlight);
     }
 
     return pipe(
       swappedState,
-      resetGravity,
-      resetLock,
       rolloverRng,
+      settle,
+      resetLock,
       updateHighlight
     );
 
@@ -317,6 +629,30 @@ class Connect implements GameEvent {
   consume = (s: State): State => ({ ...s, opponentConnected: this.connected });
 }
 
+class RetryOnFault implements GameEvent {
+  constructor(public readonly enabled: boolean) {}
+
+  /**
+   * Turns the finesse practice on or off, where pieces placed with wasted inputs have to be placed again.
+   *
+   * @param {State} s - The current state.
+   * @returns {State} The new state after the event.
+   */
+  consume = (s: State): State => ({ ...s, retryOnFault: this.enabled });
+}
+
+class UseKicks180 implements GameEvent {
+  constructor(public readonly kicks: Kicks180) {}
+
+  /**
+   * Picks the kick table tried for a half turn.
+   *
+   * @param {State} s - The current state.
+   * @returns {State} The new state after the event.
+   */
+  consume = (s: State): State => ({ ...s, kicks180: this.kicks });
+}
+
 class Drop implements GameEvent {
 
   /**
@@ -325,43 +661,74 @@ class Drop implements GameEvent {
    * @param {State} s - The current state.
    * @returns {State} The new state after dropping the Tetromino.
    */
-  consume = (s: State): State =>
-    LockDelay.activate({ ...s, active: s.active.drop(s.floor) }); // instantly drop & activate the LockDelay
+  consume = (s: State): State => {
+    if (s.entryDelay > 0 || !s.config.hardDrop) return s;
+
+    // instantly drop & activate the LockDelay, with points for every row dropped
+    const dropped = s.active.drop(s.floor);
+    const rows = dropped.pos.y - s.active.pos.y;
+    return LockDelay.activate({
+      ...pipe(s, countKey, addScore(Points.HARD_DROP * rows)),
+      active: dropped,
+      lastKick: rows > 0 ? -1 : s.lastKick,
+    });
+  };
 }
 
 class GarbageOut implements GameEvent {
-  constructor(public readonly columns: number) {}
+  constructor(public readonly lines: number) {}
 
   /**
-   * Processes the garbage out event, by adding garbage rows to the game floor.
+   * Processes the garbage out event i.e. the opponent attacked us, by queueing up the garbage.
+   * It only reaches the floor on our next lock, unless we cancel it by clearing lines first.
    *
    * @param {State} s - The current state.
    * @returns {State} The new state after the event.
    */
-  consume = (s: State): State => {
+  consume = (s: State): State => ({
+    ...s,
+    garbageQueue: [...s.garbageQueue, this.lines],
+  });
 
-    const numRowsToDelete =
-      this.columns == 1
-        ? 0
-        : this.columns == 2
-        ? 1
-        : this.columns == 3
-        ? 2
-        : this.columns;
-
-    // Generate garbage rows with a single continuous random hole, and create a new floor.
-    const removed: Floor = [...s.floor.slice(0, numRowsToDelete)];
-    const holeIndex = s.rng.value % Constants.GRID_WIDTH;
-    const garbage: Floor = makeFloor(numRowsToDelete)("brown").map((row) => {
-      return [...row.slice(0, holeIndex), 0, ...row.slice(holeIndex + 1)];
-    });
-    const floor: Floor = [...s.floor.slice(numRowsToDelete), ...garbage];
-    const active = getTetromino(s.rng.value);
-    const newState = pipe({
-      ...s,
-      floor,
-      active,
-    }, resetGravity, resetLock, updateHighlight);
+  /**
+   * Moves the incoming garbage onto the floor, up to a cap per lock. The rest stays queued.
+   *
+   * @param {State} s - The current state.
+   * @returns {State} The new state after receiving the garbage.
+   */
+  static receive = (s: State): State => {
+    const [lines, garbageQueue] = s.garbageQueue.reduce<Readonly<[number, ReadonlyArray<number>]>>(
+      ([taken, rest], batch) => {
+        const take = Math.min(batch, Constants.GARBAGE_CAP - taken);
+        return [taken + take, take < batch ? [...rest, batch - take] : rest];
+      },
+      [0, []]
+    );
+    return GarbageOut.insert(lines)({ ...s, garbageQueue });
+  };
+
+  /**
+   * Pushes garbage rows up from the bottom of the floor.
+   *
+   * @param {number} lines - The number of garbage rows to add.
+   * @param {Messiness} messiness - Optional. How the holes are placed, the messiness of the rules by default.
+   * @returns {(s: State) => State} A function that takes the state to add the garbage to.
+   */
+  static insert = (
+    lines: number,
+    messiness?: Messiness
+  ) => (s: State): State => {
+    // Generate garbage rows with holes placed by the messiness setting, and create a new floor.
+    const removed: Floor = [...s.floor.slice(0, lines)];
+    const [garbage, garbageRng, garbageHole] = garbageRows(
+      messiness ?? s.config.messiness,
+      lines,
+      s.garbageRng,
+      s.garbageHole % s.config.board.width, // The hole of a wider board, before a restart
+      s.config.board.width
+    );
+    const floor: Floor = [...s.floor.slice(lines), ...garbage];
+    const newState = { ...s, floor, garbageRng, garbageHole };
     
     // Immediate end if gameEnd given the floor or if any row in the removed section had blocks.
     return gameEnd(floor) || removed.flat().some(Boolean)
@@ -371,29 +738,72 @@ class GarbageOut implements GameEvent {
 }
 
 class Restart implements GameEvent {
+  constructor(
+    public readonly mode?: GameMode,
+    public readonly bestTime?: number,
+    public readonly rotation?: RotationSystemKind,
+    public readonly config?: GameConfig
+  ) {}
   
   /**
    * Processes the restart event and returns a fresh state.
+   * Switches to another mode (along with its personal best) if one is given, otherwise replays the same one.
+   * Likewise for the rotation system, which the pieces already in the queue are respawned in.
+   * New rules come with the rotation system of their own (unless one is given), and start a new game:
+   * its seed comes off the garbage RNG (so that the game can still be played back), and seeds the pieces
+   * and the garbage apart, like createState does.
    *
    * @param {State} s - The current state.
    * @returns {State} The new state after restart.
    */
   consume = (s: State): State => {
-    const floor = makeEmptyFloor();
+    const config = this.config ?? s.config;
+    const floor = makeEmptyFloor(config.board);
+    const rotation = this.rotation ?? this.config?.rotation ?? s.rotation;
+    const mode = this.mode ?? s.mode;
+    const seed = s.garbageRng.value;
+    const { active, queue, rng } = this.config
+      ? dealFirst(seed, rotation, config)
+      : rolloverRng({ ...s, rotation, queue: s.queue.map((t) => TetrominoFactory.respawn(t, config.board, rotation)) });
 
     return pipe({
       ...s,
       gameEnd: false,
       score: 0,
-      level: 1,
+      level: config.startLevel,
       floor,
       cleared: 0,
       swapped: false,
       isPaused: false,
       framesInCurrentRow: 0,
-      recentClear: 0,
-      hold: undefined
-    }, resetGravity, resetLock, rolloverRng, updateHighlight)
+      garbageQueue: [],
+      garbageSent: 0,
+      garbageCleared: 0,
+      combo: -1,
+      backToBack: false,
+      lastKick: -1,
+      lastClear: undefined,
+      hold: undefined,
+      mode,
+      bestTime: this.mode ? this.bestTime : s.bestTime,
+      rotation,
+      config,
+      active,
+      queue,
+      rng,
+      garbageRng: this.config ? garbageRNG(seed) : s.garbageRng,
+      frames: 0,
+      restarts: s.restarts + 1,
+      splits: [],
+      completed: false,
+      pieceInputs: 0,
+      finesseFaults: 0,
+      lastFinesse: undefined,
+      stats: emptyStats,
+      entryDelay: 0,
+      initialRotation: 0,
+      initialHold: false,
+    }, replenishGarbage, settle, resetLock, updateHighlight)
   };
 }
 
@@ -406,11 +816,43 @@ class Restart implements GameEvent {
  * @returns {State} The updated state of the game after processing the event.
  */
 const reduceState = (s: State, e: GameEvent): State => {
-  // Only process the Restart, Pause, or Connect: if ended or paused.
+  // Only process the Restart, Pause, Connect, or settings: if ended or paused.
   if (s.gameEnd || s.isPaused) {
-    return e instanceof Restart || e instanceof Pause || e instanceof Connect
+    return e instanceof Restart ||
+      e instanceof Pause ||
+      e instanceof Connect ||
+      e instanceof RetryOnFault ||
+      e instanceof UseKicks180
       ? e.consume(s)
       : s;
   }
   return e.consume(s);
 };
+
+/**
+ * Puts the inputs of a frame into the order they are processed in, along with the events that happen every frame.
+ * We process pauses first, ticks next, others, lock delay, followed by garbage and restart.
+ * Order is actually quite important for game logic and also user experience.
+ *
+ * @param {ReadonlyArray<GameEvent>} inputs - The events that came in during the frame.
+ * @returns {ReadonlyArray<GameEvent>} Every event of the frame, in order.
+ */
+const frameEvents = (inputs: ReadonlyArray<GameEvent>): ReadonlyArray<GameEvent> => {
+  const restarts = inputs.filter((e) => e instanceof Restart);
+  const pauses = inputs.filter((e) => e instanceof Pause);
+  const garbages = inputs.filter((e) => e instanceof GarbageOut);
+  const others = inputs.filter(
+    (e) => !(e instanceof Pause || e instanceof Restart || e instanceof GarbageOut)
+  );
+  return [...pauses, new Tick(), ...others, new LockDelay(), ...garbages, ...restarts];
+};
+
+/**
+ * Plays out a single frame i.e. applies all of its events onto s.
+ *
+ * @param {State} s - The state of the game.
+ * @param {ReadonlyArray<GameEvent>} inputs - The events that came in during the frame.
+ * @returns {State} The updated state of the game after the frame.
+ */
+const reduceFrame = (s: State, inputs: ReadonlyArray<GameEvent>): State =>
+  frameEvents(inputs).reduce(reduceState, s);
@@ -0,0 +1,58 @@
+/**
+ *
+ * File that contains the performance statistics i.e. how fast and how efficiently someone plays.
+ * The counters live on the State, and the rates are derived from them whenever they are shown.
+ * @author Yu Kogure.
+ *
+ */
+
+export { emptyStats, countKey, countPiece, ratesOf };
+
+import { Constants } from "./const";
+import { Rates, State, Stats } from "./types";
+
+const emptyStats: Stats = { pieces: 0, keys: 0, attack: 0 };
+
+/**
+ * Counts a key press i.e. a move (not an auto repeat), rotation, hold or hard drop.
+ *
+ * @param {State} s - The current state.
+ * @returns {State} The state with the key counted.
+ */
+const countKey = (s: State): State => ({
+  ...s,
+  stats: { ...s.stats, keys: s.stats.keys + 1 },
+});
+
+/**
+ * Counts a piece placed, along with the attack it made (before any of it cancelled incoming garbage).
+ *
+ * @param {number} attack - The lines of garbage the piece was worth.
+ * @returns {(s: State) => State} A function that takes the state to count the piece on.
+ */
+const countPiece = (attack: number) => (s: State): State => ({
+  ...s,
+  stats: {
+    ...s.stats,
+    pieces: s.stats.pieces + 1,
+    attack: s.stats.attack + attack,
+  },
+});
+
+/**
+ * Derives the rates from the counters and the time played.
+ *
+ * @param {State} s - The current state.
+ * @returns {Rates} Pieces per second, attack per minute, keys per piece and lines per minute.
+ */
+const ratesOf = ({ stats, cleared, frames }: State): Rates => {
+  const seconds = (frames * Constants.FRAME_MS) / 1000;
+  const perSecond = (n: number) => (seconds > 0 ? n / seconds : 0);
+  return {
+    pps: perSecond(stats.pieces),
+    apm: perSecond(stats.attack) * 60,
+    kpp: stats.pieces > 0 ? stats.keys / stats.pieces : 0,
+    lpm: perSecond(cleared) * 60,
+  };
+};
+
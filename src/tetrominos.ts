@@ -1,15 +1,26 @@
 /**
  * 
- * File that contains the information on how tetromino is created, stored, and represented.
+ * File that contains the information on how tetromino is created, stored, and represented,
+ * along with the rotation systems deciding how they spawn and turn.
  * The idea behind: https://tetris.wiki/Super_Rotation_System#How_Guideline_SRS_Really_Works
  * @author Yu Kogure.
  * 
  */
 
-export { Tetromino, TetrominoFactory };
+export { Tetromino, TetrominoFactory, RotationSystems, TBlock };
 
-import { Constants } from "./const";
-import { Shape, TetrominoColour, Pos, Piece, Floor, Matrix } from "./types";
+import {
+  Shape,
+  TetrominoColour,
+  Pos,
+  Piece,
+  Floor,
+  Matrix,
+  Kicks180,
+  RotationSystem,
+  RotationSystemKind,
+  Board,
+} from "./types";
 import {
   rotateMatrixLeft,
   rotateMatrixRight,
@@ -20,6 +31,7 @@ import {
   lastFilledRow,
   withinBound,
   bestPosition,
+  range,
 } from "./utils";
 
 /** Tetromino Shape Matrix */
@@ -96,20 +108,50 @@ abstract class WallKick {
     [new Pos(-1, 0)]
   ];
 
+  /* The kicks tried for a half turn, for every piece, by the rotation state turned from. */
+
+  public static KICKS_180: Readonly<Record<Kicks180, Matrix<Pos>>> = {
+    none: [[new Pos(0, 0)], [new Pos(0, 0)], [new Pos(0, 0)], [new Pos(0, 0)]],
+    // SRS+ as in TETR.IO: https://tetris.wiki/TETR.IO#SRS+
+    "srs+": [
+      [new Pos(0, 0), new Pos(0, -1), new Pos(1, -1), new Pos(-1, -1), new Pos(1, 0), new Pos(-1, 0)],
+      [new Pos(0, 0), new Pos(1, 0), new Pos(1, -2), new Pos(1, -1), new Pos(0, -2), new Pos(0, -1)],
+      [new Pos(0, 0), new Pos(0, 1), new Pos(-1, 1), new Pos(1, 1), new Pos(-1, 0), new Pos(1, 0)],
+      [new Pos(0, 0), new Pos(-1, 0), new Pos(-1, -2), new Pos(-1, -1), new Pos(0, -2), new Pos(0, -1)]
+    ],
+    // As in Tetris Online Poland: https://tetris.wiki/Tetris_Online_Poland
+    top: [
+      [new Pos(0, 0), new Pos(0, -1)],
+      [new Pos(0, 0), new Pos(1, 0)],
+      [new Pos(0, 0), new Pos(0, 1)],
+      [new Pos(0, 0), new Pos(-1, 0)]
+    ],
+  };
+
   /**
    * Calculates the necessary wall kick offset positions to check for when a Tetromino is rotated.
+   * Pieces with offsets of their own use those, and the rest go by their shape.
    * 
    * @param {Tetromino} from - The original state of the Tetromino.
    * @param {Tetromino} to - The state of the Tetromino after rotation.
+   * @param {Kicks180} kicks180 - The kicks to try for a half turn.
    * @returns {ReadonlyArray<Pos>} An array of positions contining the offset information required 
    *                              to check for when rotating the tetromino.
    */
-  public static getData(from: Tetromino, to: Tetromino): ReadonlyArray<Pos> {
+  public static getData(from: Tetromino, to: Tetromino, kicks180: Kicks180): ReadonlyArray<Pos> {
     const shapeIs = simillarMatrix(from.shape); // Allow any orientation.
-    const offsets = shapeIs(IBlock) ? WallKick.I_OFFSETS : shapeIs(OBlock) ? WallKick.O_OFFSETS : WallKick.JLSTZ_OFFSETS; 
+    const offsets = from.piece.kicks
+      ? from.piece.kicks.map((row) => row.map(([x, y]) => new Pos(x, y)))
+      : shapeIs(IBlock) ? WallKick.I_OFFSETS : shapeIs(OBlock) ? WallKick.O_OFFSETS : WallKick.JLSTZ_OFFSETS;
     const current = offsets[from.rotationState];
     const next = offsets[to.rotationState];
 
+    // A half turn first lines up where the True Rotation System would put the piece, then tries its own kicks from there.
+    if ((from.rotationState + 2) % 4 === to.rotationState) {
+      const centre = current[0].subtract(next[0]);
+      return WallKick.KICKS_180[kicks180][from.rotationState].map((pos) => centre.add(pos));
+    }
+
     // Uses the True Rotation System to find offset differences.
     return current.map(
       (pos, i) => pos.subtract(next[i])
@@ -117,6 +159,109 @@ abstract class WallKick {
   }
 }
 
+/**
+ * Represents the pivots of the classic rotation systems, which turn the pieces about a point of their own
+ * rather than the centre of their shape. Both spawn the T, J, L, S and Z flat side up, and keep them
+ * resting on the same row as they turn.
+ */
+abstract class Pivot {
+
+  /* Where each piece sits in each rotation state, relative to the centre of its shape */
+
+  public static ARS_OFFSETS = {
+    I: [new Pos(0, 0), new Pos(1, 0), new Pos(1, 0), new Pos(1, 1)],
+    O: [new Pos(0, 0), new Pos(0, -1), new Pos(1, -1), new Pos(1, 0)],
+    S: [new Pos(0, 1), new Pos(-1, 0), new Pos(0, 0), new Pos(0, 0)],
+    Z: [new Pos(0, 1), new Pos(0, 0), new Pos(0, 0), new Pos(1, 0)],
+    TJL: [new Pos(0, 1), new Pos(0, 0), new Pos(0, 0), new Pos(0, 0)],
+  } as const;
+
+  // The I, S and Z only have two states on the NES, where the S and Z lean to the right.
+  public static NRS_OFFSETS = {
+    I: [new Pos(0, 0), new Pos(1, 0), new Pos(1, 0), new Pos(1, 1)],
+    O: [new Pos(0, 0), new Pos(0, -1), new Pos(1, -1), new Pos(1, 0)],
+    S: [new Pos(0, 1), new Pos(0, 0), new Pos(0, 0), new Pos(1, 0)],
+    Z: [new Pos(0, 1), new Pos(0, 0), new Pos(0, 0), new Pos(1, 0)],
+    TJL: [new Pos(0, 0), new Pos(0, 0), new Pos(0, 0), new Pos(0, 0)],
+  } as const;
+
+  /**
+   * Finds how far a piece moves onto the pivot of a rotation system as it turns.
+   *
+   * @param {typeof Pivot.ARS_OFFSETS} offsets - Where each piece sits in each rotation state.
+   * @param {Tetromino} from - The original state of the Tetromino.
+   * @param {Tetromino} to - The state of the Tetromino after rotation.
+   * @returns {Pos} The offset between the two states.
+   */
+  public static getData(offsets: typeof Pivot.ARS_OFFSETS, from: Tetromino, to: Tetromino): Pos {
+    const shapeIs = simillarMatrix(from.shape);
+    const pieceOffsets = shapeIs(IBlock)
+      ? offsets.I
+      : shapeIs(OBlock)
+      ? offsets.O
+      : shapeIs(SBlock)
+      ? offsets.S
+      : shapeIs(ZBlock)
+      ? offsets.Z
+      : offsets.TJL;
+    return pieceOffsets[to.rotationState].subtract(pieceOffsets[from.rotationState]);
+  }
+}
+
+/**
+ * Checks the centre column rule of ARS: an L, J or T whose turn is first blocked (reading its cells row by row,
+ * left to right) in the middle column of its shape does not kick, so it can not climb out of a slot.
+ *
+ * @param {Tetromino} to - The Tetromino after rotation, on its pivot.
+ * @param {Floor} f - The floor to check against.
+ * @returns {boolean} True if the Tetromino may kick.
+ */
+const mayKick = (to: Tetromino, f: Floor): boolean => {
+  const shapeIs = simillarMatrix(to.shape);
+  if (![JBlock, LBlock, TBlock].some(shapeIs)) return true;
+
+  const isInFloor = withinBound(f);
+  const blocked = to.shape
+    .flatMap((row, y) => row.map((cell, x) => ({ cell, x, y })))
+    .find(({ cell, x, y }) => {
+      const { x: fx, y: fy } = to.pos.add(new Pos(x, y));
+      return cell && (isInFloor(fx, fy) ? Boolean(f[fy][fx]) : fy >= 0);
+    });
+  return blocked?.x !== 1;
+};
+
+// The classic rotation systems spawn these flat side up i.e. upside down from how they are drawn above.
+const flatSideUp = (shape: Shape) => [JBlock, LBlock, SBlock, TBlock, ZBlock].some(simillarMatrix(shape));
+
+/**
+ * The rotation systems, by how they are picked for a game.
+ * SRS spawns every piece as it is drawn above, and kicks as the guideline does.
+ * ARS (https://tetris.wiki/Arika_Rotation_System) only kicks one column right, then left, and never the I.
+ * NRS (https://tetris.wiki/Nintendo_Rotation_System) never kicks at all.
+ */
+const RotationSystems: Readonly<Record<RotationSystemKind, RotationSystem>> = {
+  srs: {
+    spawnState: () => 0,
+    spawnBelow: 0,
+    kicks: (from, to, _, kicks180) => WallKick.getData(from, to, kicks180),
+  },
+  ars: {
+    spawnState: (shape) => (flatSideUp(shape) ? 2 : 0),
+    spawnBelow: 1,
+    kicks: (from, to, f) => {
+      const pivot = Pivot.getData(Pivot.ARS_OFFSETS, from, to);
+      return simillarMatrix(from.shape)(IBlock) || !mayKick(to.moveBy(pivot), f)
+        ? [pivot]
+        : [pivot, pivot.add(new Pos(1, 0)), pivot.add(new Pos(-1, 0))];
+    },
+  },
+  nrs: {
+    spawnState: (shape) => (flatSideUp(shape) ? 2 : 0),
+    spawnBelow: 1,
+    kicks: (from, to) => [Pivot.getData(Pivot.NRS_OFFSETS, from, to)],
+  },
+};
+
 /**
  * Represents a Tetromino.
  */
@@ -125,7 +270,9 @@ class Tetromino {
     public readonly shape: Shape,
     public readonly colour: TetrominoColour,
     public readonly pos: Pos, // relative position
-    public readonly rotationState: number // [0..3], where 0 is the originial, 1 is 90 degrees clockwise....
+    public readonly rotationState: number, // [0..3], where 0 is the originial, 1 is 90 degrees clockwise....
+    public readonly system: RotationSystemKind = "srs", // The rotation system it spawns and turns with
+    public readonly piece: Piece = { shape, colour } // The piece it is, as it spawns
   ) {}
 
   /**
@@ -134,16 +281,7 @@ class Tetromino {
    * @param {Floor} f - The floor to check against.
    * @returns {Tetromino} New rotated Tetromino if valid, otherwise returns the Tetromino in its original state.
    */
-  rotateLeft = (f: Floor) => {
-    const nextState = (this.rotationState - 1) % 4;
-    const rotated = new Tetromino(
-      rotateMatrixLeft(this.shape),
-      this.colour,
-      this.pos,
-      nextState >= 0 ? nextState : 4 + nextState // state -1 === state 3
-    );
-    return this.__rotate(rotated, f);
-  };
+  rotateLeft = (f: Floor) => this.rotate(-1, f)[0];
 
   /**
    * Rotates the Tetromino 90° clockwise and checks if the rotation is valid.
@@ -151,31 +289,48 @@ class Tetromino {
    * @param {Floor} f - The floor to check against.
    * @returns {Tetromino} New rotated Tetromino if valid, otherwise returns the Tetromino in its original state.
    */
-  rotateRight = (f: Floor) => {
+  rotateRight = (f: Floor) => this.rotate(1, f)[0];
+
+  /**
+   * Rotates the Tetromino by the given quarter turns, also reporting which wall kick was used.
+   *
+   * @param {number} direction - The quarter turns clockwise i.e. 1 for clockwise, -1 for counterclockwise
+   * and 2 for a half turn.
+   * @param {Floor} f - The floor to check against.
+   * @param {Kicks180} kicks180 - Optional. The kicks to try for a half turn, SRS+ by default.
+   * @returns {Readonly<[Tetromino, number]>} New rotated Tetromino if valid (otherwise the Tetromino in its
+   * original state), and the index of the wall kick used (-1 if the rotation failed).
+   */
+  rotate = (direction: number, f: Floor, kicks180: Kicks180 = "srs+"): Readonly<[Tetromino, number]> => {
+    const turns = ((direction % 4) + 4) % 4; // a turn counterclockwise === 3 turns clockwise
     const rotated = new Tetromino(
-      rotateMatrixRight(this.shape),
+      turns === 3
+        ? rotateMatrixLeft(this.shape)
+        : range(turns).reduce((shape) => rotateMatrixRight(shape), this.shape),
       this.colour,
       this.pos,
-      (this.rotationState + 1) % 4
+      (this.rotationState + turns) % 4,
+      this.system,
+      this.piece
     );
-    return this.__rotate(rotated, f);
+    return this.__rotate(rotated, f, kicks180);
   };
 
   /**
-   * Helper: Rotates the Tetromino with respect to the wall kick data.
+   * Helper: Rotates the Tetromino with respect to the wall kick data of its rotation system.
    *
    * @param {Tetromino} to - The tetromino after rotation.
    * @param {Floor} f - The floor to check against.
-   * @returns {Tetromino} New rotated Tetromino if valid, otherwise returns the Tetromino in its original state.
+   * @param {Kicks180} kicks180 - The kicks to try if it is a half turn.
+   * @returns {Readonly<[Tetromino, number]>} New rotated Tetromino if valid, otherwise returns the Tetromino
+   * in its original state, along with the index of the first wall kick that fits (-1 if none).
    */
-  __rotate = (to: Tetromino, f: Floor) => {
+  __rotate = (to: Tetromino, f: Floor, kicks180: Kicks180): Readonly<[Tetromino, number]> => {
     // Test on all wallkick data.
-    const wallKickData = WallKick.getData(this, to);
-    const possibleTetrominos = wallKickData
-      .map((pos: Pos) => to.moveBy(pos))
-      .filter((tetromino) => tetromino.validPos(f));
+    const wallKickData = RotationSystems[this.system].kicks(this, to, f, kicks180);
+    const kick = wallKickData.findIndex((pos: Pos) => to.moveBy(pos).validPos(f));
 
-    return possibleTetrominos.length === 0 ? this : possibleTetrominos[0];
+    return kick < 0 ? [this, kick] : [to.moveBy(wallKickData[kick]), kick];
   };
 
   moveBy = (d: Pos) =>
@@ -183,7 +338,9 @@ class Tetromino {
       this.shape,
       this.colour,
       this.pos.add(d),
-      this.rotationState
+      this.rotationState,
+      this.system,
+      this.piece
     );
 
   moveTo = (newPos: Pos) =>
@@ -191,7 +348,9 @@ class Tetromino {
       this.shape,
       this.colour,
       newPos, // We never mutate pos so this is ok,
-      this.rotationState
+      this.rotationState,
+      this.system,
+      this.piece
     );
 
   /**
@@ -208,7 +367,7 @@ class Tetromino {
     const withinSpecialBound =
       x + firstFilledCol(this.shape) >= 0 &&
       x + lastFilledCol(this.shape) + 1 <= f[0].length &&
-      y + firstFilledRow(this.shape) >= -2 && // Shapes spawn 2 blocks above the grid originally.
+      y + firstFilledRow(this.shape) >= -2 && // Shapes spawn up to 2 blocks above the grid, without a buffer.
       y + lastFilledRow(this.shape) + 1 <= f.length;
 
     return withinSpecialBound && !this.overlaps(f);
@@ -245,18 +404,12 @@ class Tetromino {
 }
 
 
-/**
- * Computes the best (centered) x-position for a Tetromino when spawning.
- * @param {Shape} shape - The shape of the tetromino
- */
-const centerXPosition = bestPosition(Constants.GRID_WIDTH)("x");
-
 /**
  * A factory for creating new tetrominos.
  */
 abstract class TetrominoFactory {
   
-  private static TETROMINOES: ReadonlyArray<Piece> = [
+  public static readonly TETROMINOES: ReadonlyArray<Piece> = [
     { shape: IBlock, colour: "cyan" },
     { shape: JBlock, colour: "blue" },
     { shape: LBlock, colour: "orange" },
@@ -267,35 +420,79 @@ abstract class TetrominoFactory {
   ];
 
   /**
-   * Generate a Tetromino based on a given hash value.
-   * 
-   * @param {number} hash - A hash value.
-   * @returns {Tetromino} A new Tetromino object based on the hash value.
+   * Creates a Tetromino of the given piece, positioned where new pieces spawn in the rotation system:
+   * centered, in the 2 rows right above the visible ones, and then moved by the piece's own spawn offset.
+   * The offset only goes as far as the board does: no further sideways than the walls, no lower than the
+   * bottom, and no higher than the top (or than where it would spawn anyway, on a board without hidden rows).
+   *
+   * @param {Piece} piece - The piece to spawn.
+   * @param {Board} board - The board it spawns on.
+   * @param {RotationSystemKind} system - The rotation system it spawns and turns with.
+   * @returns {Tetromino} A new Tetromino at its spawn position and rotation.
    */
-  public static getTetromino(hash: number): Tetromino {
-    const index = hash % TetrominoFactory.TETROMINOES.length;
-    const { shape, colour } = TetrominoFactory.TETROMINOES[index];
+  private static spawn(piece: Piece, board: Board, system: RotationSystemKind): Tetromino {
+    const { shape, colour, spawn: [right, down] = [0, 0] } = piece;
+    const { spawnState, spawnBelow } = RotationSystems[system];
+    const rotationState = spawnState(shape);
+    const spawnShape = range(rotationState).reduce((s) => rotateMatrixRight(s), shape);
+    const x = Math.floor(bestPosition(board.width)("x")(spawnShape));
+    const y = board.buffer - firstFilledRow(spawnShape) - 2 + spawnBelow;
+    const within = (n: number, min: number, max: number) => Math.min(Math.max(n, min), max);
     return new Tetromino(
-      shape,
+      spawnShape,
       colour,
-      new Pos(Math.floor(centerXPosition(shape)), -1 * firstFilledRow(shape) - 2),
-      0
+      new Pos(
+        within(x + right, -firstFilledCol(spawnShape), board.width - 1 - lastFilledCol(spawnShape)),
+        within(y + down, Math.min(y, -firstFilledRow(spawnShape)), board.buffer + board.height - 1 - lastFilledRow(spawnShape))
+      ),
+      rotationState,
+      system,
+      piece
     );
   }
 
   /**
-   * Retrieve an original Tetromino (with default position and rotation) based on its shape matrix.
+   * Generate a Tetromino based on a given hash value.
    * 
-   * @param {Shape} originalShape - The shape of the desired Tetromino, in any orientation.
-   * @returns {Tetromino} A new Tetromino object matching the provided shape in its default state.
+   * @param {number} hash - A hash value.
+   * @param {ReadonlyArray<Piece>} pieces - The set of pieces to pick from.
+   * @param {Board} board - The board it spawns on.
+   * @param {RotationSystemKind} system - Optional. The rotation system it spawns and turns with, SRS by default.
+   * @returns {Tetromino} A new Tetromino object based on the hash value.
    */
-  public static getOriginalTetromino(originalShape: Shape): Tetromino {
-    // Identify which standard tetromino matches the provided shape
-    const shapeIs = simillarMatrix(originalShape);
-    const { shape, colour } = TetrominoFactory.TETROMINOES.find(({ shape }) =>
-      shapeIs(shape)
-    )!;
+  public static getTetromino(
+    hash: number,
+    pieces: ReadonlyArray<Piece>,
+    board: Board,
+    system: RotationSystemKind = "srs"
+  ): Tetromino {
+    return TetrominoFactory.spawn(pieces[hash % pieces.length], board, system);
+  }
 
+  /**
+   * Puts a Tetromino back to its spawn position and rotation e.g. when it is moved to the hold.
+   *
+   * @param {Tetromino} tetromino - The Tetromino to respawn.
+   * @param {Board} board - The board it spawns on.
+   * @param {RotationSystemKind} system - Optional. The rotation system to respawn it in, its own by default.
+   * @returns {Tetromino} The same kind of Tetromino, freshly spawned.
+   */
+  public static respawn(
+    tetromino: Tetromino,
+    board: Board,
+    system: RotationSystemKind = tetromino.system
+  ): Tetromino {
+    return TetrominoFactory.spawn(tetromino.piece, board, system);
+  }
+
+  /**
+   * Retrieve an original Tetromino (with default position) of the same piece and orientation as the given one,
+   * which is how it spawns in its rotation system.
+   * 
+   * @param {Pick<Tetromino, "shape" | "colour">} tetromino - The Tetromino, which may also be one sent by the opponent.
+   * @returns {Tetromino} A new Tetromino object matching the provided one in its default state.
+   */
+  public static getOriginalTetromino({ shape, colour }: Pick<Tetromino, "shape" | "colour">): Tetromino {
     return new Tetromino(shape, colour, new Pos(0, 0), 0);
   }
 }
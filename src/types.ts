@@ -13,13 +13,47 @@ export type {
   Floor,
   Piece,
   LazyRNG,
+  TSpin,
+  Clear,
+  Finesse,
+  Stats,
+  Rates,
+  Randomizer,
+  RandomizerKind,
+  Messiness,
+  GameMode,
+  EncodedEvent,
+  Replay,
+  Playback,
+  Difficulty,
+  BotSettings,
+  Placement,
+  Search,
+  Bot,
+  Hint,
   State,
   Key,
+  Action,
+  Bindings,
   KeyEvent,
   GameEvent,
   Player,
   DataFromSocket,
-  customInterval
+  StateFromSocket,
+  SoftDrop,
+  Handling,
+  Kicks180,
+  RotationSystemKind,
+  RotationSystem,
+  LockDown,
+  Gravity,
+  Timings,
+  LevelTable,
+  Leveling,
+  PresetName,
+  Board,
+  PieceSetKind,
+  GameConfig
 };
 export { Pos };
 
@@ -41,15 +75,8 @@ type Shape = Matrix<Number>;
 type Empty = 0;
 
 /**
- * customInterval: A custom interval with delay and step properties.
- */
-type customInterval = Readonly<{
-  delay: number,
-  step: number
-}>
-
-/**
- * TetrominoColour: All possible colors that a Tetromino or the floor itself could contain.
+ * TetrominoColour: All possible colors that a Tetromino or the floor itself could contain. The pentominoes have
+ * colours of their own, and pieces loaded from JSON can be any hex colour e.g. "#ff8800".
  */
 type TetrominoColour =
   | "cyan"
@@ -60,7 +87,32 @@ type TetrominoColour =
   | "purple"
   | "red"
   | "grey"
-  | "brown";
+  | "brown"
+  | PentominoColour
+  | `#${string}`;
+
+/**
+ * PentominoColour: The colours of the pentominoes, a pair of shades for every piece that comes in two mirror images.
+ */
+type PentominoColour =
+  | "salmon"
+  | "coral"
+  | "teal"
+  | "navy"
+  | "royalblue"
+  | "khaki"
+  | "gold"
+  | "orchid"
+  | "plum"
+  | "indigo"
+  | "lime"
+  | "crimson"
+  | "turquoise"
+  | "tan"
+  | "olive"
+  | "olivedrab"
+  | "magenta"
+  | "violet";
 
 /**
  * Floor: A matrix used to represent the floor i.e. the grid, where each cell can either be empty or contain a Tetromino color.
@@ -68,13 +120,22 @@ type TetrominoColour =
 type Floor = Matrix<TetrominoColour | Empty>;
 
 /**
- * Piece: Defines a basic information about a Tetromino piece.
+ * Piece: Defines a basic information about a Tetromino piece. Pieces of other sets can move where they spawn,
+ * and bring their own SRS offsets i.e. an [x, y] list for each rotation state, like those of the I and the O.
  */
 type Piece = Readonly<{
   shape: Shape;
   colour: TetrominoColour;
+  spawn?: Readonly<[number, number]>; // Columns right and rows down from where it would spawn
+  kicks?: Matrix<Readonly<[number, number]>>;
 }>;
 
+/**
+ * PieceSetKind: The sets of pieces a game can be played with: the seven tetrominoes, the eighteen pentominoes
+ * (counting mirror images apart), both at once, or pieces of one's own.
+ */
+type PieceSetKind = "tetrominoes" | "pentominoes" | "mixed" | "custom";
+
 /**
  * Player: The player number - you are always 0!
  */
@@ -88,11 +149,161 @@ type LazyRNG = Readonly<{
   next: () => LazyRNG;
 }>;
 
+/**
+ * Randomizer: A lazily evaluated sequence of piece indices, used to decide which Tetromino comes next.
+ */
+type Randomizer = Readonly<{
+  value: number;
+  next: () => Randomizer;
+}>;
+
+/**
+ * RandomizerKind: All available strategies for generating the sequence of pieces.
+ * - random: every piece is picked independently (floods and droughts are possible).
+ * - bag7: every piece appears exactly once in each shuffled bag of 7.
+ * - bag14: two of every piece in each shuffled bag of 14.
+ * - tgm: avoids the 4 most recent pieces, rerolling a limited number of times.
+ */
+type RandomizerKind = "random" | "bag7" | "bag14" | "tgm";
+
+/**
+ * Messiness: How the holes in garbage rows are placed, from easiest to hardest to dig through.
+ * - clean: every row of a batch shares the same hole.
+ * - percentage: each row has a chance of moving the hole, otherwise it lines up with the row above.
+ * - random: every row gets a hole in a random column.
+ * - cheese: every row gets a hole in a different column from the row above.
+ */
+type Messiness = "clean" | "percentage" | "random" | "cheese";
+
+/**
+ * GameMode: The goal of the game, and when it ends.
+ * - marathon: endless, until the stack tops out.
+ * - sprint: clear the given number of lines as fast as possible.
+ * - ultra: score as much as possible before the given number of frames is up.
+ * - dig: dig through the given number of garbage lines, with up to `rows` of them on the floor at a time.
+ * How the pieces fall, score and level up is up to the GameConfig.
+ */
+type GameMode =
+  | Readonly<{ kind: "marathon" }>
+  | Readonly<{ kind: "sprint"; lines: number }>
+  | Readonly<{ kind: "ultra"; frames: number }>
+  | Readonly<{ kind: "dig"; lines: number; rows: number }>;
+
+/**
+ * TSpin: The kind of T-spin performed when a piece is locked.
+ */
+type TSpin = "none" | "mini" | "full";
+
+/**
+ * Clear: Describes what a locked piece achieved, so that it can be shown to the player.
+ */
+type Clear = Readonly<{
+  lines: number;
+  tSpin: TSpin;
+  combo: number; // -1 if the lock broke the combo, 0 for the first clear in a row, and so on
+  backToBack: boolean;
+  perfectClear: boolean;
+  points: number;
+}>;
+
+/**
+ * Difficulty: How strong the CPU opponent is.
+ */
+type Difficulty = "easy" | "medium" | "hard";
+
+/**
+ * BotSettings: How a CPU opponent plays, which is what its difficulty decides.
+ */
+type BotSettings = Readonly<{
+  inputFrames: number; // Frames per input, 0 to make every input of a placement at once
+  thinkFrames: number; // Frames spent before starting on each piece
+  useHold: boolean; // Whether placements of the held (or next) piece are considered too
+  lookahead: boolean; // Whether placements are judged along with the best placement of the next piece
+  mistakes: number; // Chance of going with a random placement instead of the best one, in [0,1)
+}>;
+
+/**
+ * Placement: Where a piece could end up, and the inputs that get it there.
+ */
+type Placement = Readonly<{
+  piece: Tetromino; // The piece where it lands
+  inputs: ReadonlyArray<GameEvent>;
+  floor: Floor; // The floor after the piece is locked and the lines are cleared
+  lines: number;
+}>;
+
+/**
+ * Search: A search for the best placement, which is spread over a few frames. Every placement of a piece
+ * (and of the held one) is ranked on its own first, a piece a frame, and then the best few are judged along
+ * with the piece after them, one a frame.
+ */
+type Search = Readonly<{
+  floor: Floor; // The floor the pieces are placed on
+  // The pieces yet to be placed, the inputs to make first (i.e. a hold), and the piece after each
+  pending: ReadonlyArray<Readonly<{ piece: Tetromino; prefix: ReadonlyArray<GameEvent>; next?: Tetromino }>>;
+  ranked: ReadonlyArray<Placement & Readonly<{ next?: Tetromino; value: number }>>; // Best first, as ranked on their own
+  judged: number; // How many of the best placements have been judged along with the piece after them
+  lookahead: boolean; // Whether any are judged along with the piece after them at all
+}>;
+
+/**
+ * Bot: The CPU opponent, along with the inputs left for its current piece.
+ */
+type Bot = Readonly<{
+  settings: BotSettings;
+  plan: ReadonlyArray<GameEvent>;
+  search?: Search; // The search for the placement of the current piece, until it is played out
+  piece?: string; // The piece the plan and the search are for, so that they are dropped once it is gone
+  wait: number; // Frames until the next input
+  rng: LazyRNG; // Decides when to make a mistake
+}>;
+
+/**
+ * Hint: Where the active piece is best placed, and the inputs that get it there.
+ */
+type Hint = Readonly<{
+  piece: Tetromino;
+  inputs: ReadonlyArray<GameEvent>;
+}>;
+
+/**
+ * Finesse: How many inputs a piece was placed with, against the fewest that could have placed it.
+ */
+type Finesse = Readonly<{
+  inputs: number;
+  minimal: number;
+}>;
+
+/**
+ * Stats: The counters the performance statistics are derived from (along with the lines cleared and frames).
+ */
+type Stats = Readonly<{
+  pieces: number; // Pieces placed
+  keys: number; // Moves (not counting auto repeats), rotations, holds and hard drops pressed
+  attack: number; // Lines of garbage made by clears, before cancelling any incoming garbage
+}>;
+
+/**
+ * Rates: The performance statistics i.e. pieces per second, attack per minute, keys per piece and lines per minute.
+ */
+type Rates = Readonly<{
+  pps: number;
+  apm: number;
+  kpp: number;
+  lpm: number;
+}>;
+
+/**
+ * StateFromSocket: The opponent's state as it is sent over the websocket.
+ * The rules only come along with the first state after they change, the game restarts or the opponent connects.
+ */
+type StateFromSocket = Omit<State, "config"> & Readonly<{ config?: GameConfig }>;
+
 /**
  * DataFromSocket: Data type that can be received from our websocket connection. 
  * Right now, we only deal with State or boolean (connected or disconnected)
  */
-type DataFromSocket = State | boolean;
+type DataFromSocket = StateFromSocket | boolean;
 
 /**
  * State: Defines the state of the game.
@@ -104,18 +315,85 @@ type State = Readonly<{
   level: number;
   floor: Floor;
   active: Tetromino;
-  next: Tetromino;
-  rng: LazyRNG;
+  queue: ReadonlyArray<Tetromino>;
+  rng: Randomizer;
   cleared: number;
   highlight: Tetromino;
   lockDelayCount: number;
+  lockResets: number; // Times the active piece has put off locking since it reached its lowest row
+  lowestRow: number; // The lowest row the bottom of the active piece has reached
+  entryDelay: number; // Frames left before the active piece enters, 0 once it is in play
+  initialRotation: number; // Quarter turns pressed before the active piece entered, to be made as it enters (IRS)
+  initialHold: boolean; // Whether hold was pressed before the active piece entered, to be made as it enters (IHS)
   hold?: Tetromino;
   swapped: boolean;
   isPaused: boolean;
-  gravityOffset: number;
-  framesInCurrentRow: number;
+  softDrop?: SoftDrop; // How fast the active piece is soft dropped, while the key is held
+  framesInCurrentRow: number; // Frames towards the next row, along with any part of one left over from the last
   opponentConnected: boolean;
-  recentClear: number;
+  garbageQueue: ReadonlyArray<number>; // Batches of incoming garbage lines, oldest first
+  garbageSent: number; // Total lines of garbage sent this game
+  garbageRng: LazyRNG; // Kept apart from the pieces, so that garbage never changes what pieces we get
+  garbageHole: number; // Column of the hole in the last (lowest) garbage row received
+  garbageCleared: number; // Garbage lines cleared, which are also counted in `cleared`
+  combo: number;
+  backToBack: boolean;
+  mode: GameMode;
+  frames: number; // Frames elapsed since the game started
+  restarts: number; // Times the game was restarted, so that whoever follows it (e.g. the CPU opponent) sees a new one start
+  splits: ReadonlyArray<number>; // Frames elapsed by every SPLIT_LINES lines cleared
+  completed: boolean; // Whether the game ended by reaching the goal of the mode
+  bestTime?: number; // Personal best for the mode in frames, if there is one
+  lastKick: number; // The wall kick used by the last successful action if it was a rotation, -1 otherwise
+  lastTurn: number; // The quarter turns of the last successful rotation, which tell the table of its kick
+  lastClear?: Clear;
+  pieceInputs: number; // Moves, rotations and holds pressed for the active piece, not counting auto repeats
+  finesseFaults: number; // Inputs wasted this game, over all pieces
+  lastFinesse?: Finesse; // How the last judged piece was placed
+  retryOnFault: boolean; // Whether a piece placed with wasted inputs has to be placed again
+  kicks180: Kicks180; // The kicks tried for a half turn
+  rotation: RotationSystemKind; // The rotation system the pieces spawn and turn with
+  config: GameConfig; // The rules the game is played by
+  stats: Stats;
+}>;
+
+/**
+ * EncodedEvent: A game event in a JSON friendly form i.e. its name followed by its arguments.
+ * Events that happen every frame (ticks and lock delays) are never encoded.
+ */
+type EncodedEvent =
+  | Readonly<["move", number, number, boolean?]>
+  | Readonly<["rotate", number]>
+  | Readonly<["drop"]>
+  | Readonly<["hold"]>
+  | Readonly<["down", boolean, SoftDrop]>
+  | Readonly<["pause", boolean]>
+  | Readonly<["restart", GameMode | null, number | null, RotationSystemKind | null, GameConfig | null]>
+  | Readonly<["garbage", number]>
+  | Readonly<["retry", boolean]>
+  | Readonly<["kicks180", Kicks180]>;
+
+/**
+ * Replay: Everything needed to play a game back i.e. its seed, and the inputs of every frame that had any.
+ */
+type Replay = Readonly<{
+  version: number;
+  seed: number;
+  mode: GameMode;
+  rotation: RotationSystemKind;
+  config: GameConfig;
+  frames: number; // Total number of frames recorded
+  inputs: ReadonlyArray<Readonly<[number, ReadonlyArray<EncodedEvent>]>>; // Frame number, and its inputs
+}>;
+
+/**
+ * Playback: A replay that is ready to be played back, with a snapshot of the state every so often
+ * so that we can jump to any frame without playing the whole game back from the start.
+ */
+type Playback = Readonly<{
+  replay: Replay;
+  inputs: ReadonlyMap<number, ReadonlyArray<GameEvent>>;
+  checkpoints: ReadonlyArray<State>;
 }>;
 
 /**
@@ -136,18 +414,143 @@ class Pos {
 }
 
 /**
- * Key: All keyboard keys that we use controls.
+ * Key: A physical key on the keyboard, as reported by `KeyboardEvent.code` e.g. "ArrowLeft" or "KeyZ".
+ */
+type Key = string;
+
+/**
+ * Action: Everything a key can be bound to.
+ */
+type Action =
+  | "moveLeft"
+  | "moveRight"
+  | "softDrop"
+  | "hardDrop"
+  | "rotateLeft"
+  | "rotateRight"
+  | "rotate180"
+  | "hold"
+  | "pause"
+  | "restart";
+
+/**
+ * Bindings: The keys bound to each action. An action can have any number of keys, but a key only one action.
+ */
+type Bindings = Readonly<Record<Action, ReadonlyArray<Key>>>;
+
+/**
+ * Kicks180: The kick table tried for a half turn: none at all, SRS+ as in TETR.IO, or as in Tetris Online Poland.
+ */
+type Kicks180 = "none" | "srs+" | "top";
+
+/**
+ * LockDown: What puts off the locking of a grounded piece. Any move or turn in the infinite lock-down, the same
+ * but only so many times per row in the extended placement of the guideline, and only falling in the classic one.
+ */
+type LockDown = "infinite" | "extended" | "classic";
+
+/**
+ * Gravity: How fast pieces fall, as so many rows every so many frames e.g. 1 row every 48 frames,
+ * or 5120 rows every 256 frames (20G) which is the whole grid in a frame.
+ */
+type Gravity = Readonly<{
+  rows: number;
+  frames: number;
+}>;
+
+/**
+ * Timings: The delays around a piece, as the rules have them.
  */
-type Key =
-  | "ArrowLeft"
-  | "ArrowRight"
-  | "ArrowUp"
-  | "ArrowDown"
-  | "Space"
-  | "KeyZ"
-  | "KeyC"
-  | "KeyR"
-  | "Escape";
+type Timings = Readonly<{
+  are: number; // Entry delay i.e. frames between a lock and the next piece entering
+  lineClearDelay: number; // Extra frames before the next piece enters, after a lock that clears lines
+  lockDelay: number; // How long a grounded piece waits before it locks, in ms
+  lockDown: LockDown; // What puts off the locking
+}>;
+
+/**
+ * Board: The size of the grid. The buffer is the rows above the visible ones, which pieces spawn into
+ * and the stack can reach without being seen.
+ */
+type Board = Readonly<{
+  width: number;
+  height: number; // Visible rows
+  buffer: number; // Hidden rows above them
+}>;
+
+/**
+ * LevelTable: Something that changes with the level, along with the level each entry takes effect from.
+ */
+type LevelTable<T> = ReadonlyArray<Readonly<[number, T]>>;
+
+/**
+ * Leveling: How the level goes up.
+ * - lines: one level every `levelLines` lines.
+ * - nes: the first level up takes longer the higher the start level, and then comes every `levelLines` lines.
+ * - sections: one for every piece and every line, but only lines get past the end of each section of 100.
+ */
+type Leveling = "lines" | "nes" | "sections";
+
+/**
+ * PresetName: The rulesets to pick from in the start menu, "custom" being one pieced together there.
+ */
+type PresetName = "modern" | "classic" | "master" | "custom";
+
+/**
+ * GameConfig: The rules a game is played by, which is what a preset picks.
+ */
+type GameConfig = Readonly<{
+  preset: PresetName;
+  rotation: RotationSystemKind; // The rotation system the preset is played with, unless another is picked
+  randomizer: RandomizerKind;
+  nextCount: number; // Number of upcoming pieces shown in the queue (1 to 6)
+  startLevel: number;
+  leveling: Leveling;
+  levelLines: number;
+  lastLevel?: number; // The level that finishes the game, if any
+  gravity: LevelTable<Gravity>;
+  timings: LevelTable<Timings>; // The delays around a piece, by level
+  scoring: "guideline" | "classic" | "master"; // Classic and master only count the lines, by the level they were cleared at
+  hold: boolean;
+  ghost: boolean;
+  hardDrop: boolean;
+  lockOnFall: boolean; // Whether a grounded piece locks as soon as it is due to fall, with no lock delay
+  messiness: Messiness; // How the holes in the garbage received are placed
+  board: Board;
+  pieces: ReadonlyArray<Piece>; // The set the randomizer deals from
+}>;
+
+/**
+ * RotationSystemKind: The rotation systems a game can be played with: the Super Rotation System of the guideline,
+ * the Arika Rotation System of TGM, or the Nintendo Rotation System of the NES.
+ */
+type RotationSystemKind = "srs" | "ars" | "nrs";
+
+/**
+ * RotationSystem: How the pieces of a rotation system spawn and turn.
+ */
+type RotationSystem = Readonly<{
+  spawnState: (shape: Shape) => number; // The rotation state a piece spawns in, given its shape
+  spawnBelow: number; // How many rows lower than usual the pieces spawn, so that they can turn straight away
+  // The offsets tried, in order, for a piece turned about the centre of its shape. They move it onto
+  // the pivot of the rotation system, and then kick it if it does not fit there.
+  kicks: (from: Tetromino, to: Tetromino, f: Floor, kicks180: Kicks180) => ReadonlyArray<Pos>;
+}>;
+
+/**
+ * SoftDrop: How much faster than gravity a soft drop is, or "sonic" to fall straight to the bottom (without locking).
+ */
+type SoftDrop = number | "sonic";
+
+/**
+ * Handling: How the keys feel, in frames.
+ */
+type Handling = Readonly<{
+  das: number; // Delayed auto shift i.e. how long a move key is held before it starts repeating
+  arr: number; // Auto repeat rate i.e. the time between repeats, 0 to go straight to the wall
+  dasCut: number; // How long rotating holds off the auto repeat, 0 for not at all
+  softDrop: SoftDrop;
+}>;
 
 /**
  * KeyEvent: The keyboard events we listen to.
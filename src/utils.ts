@@ -16,14 +16,18 @@ export {
   lastFilledCol,
   lastFilledRow,
   lazyRNG,
+  randomInt,
+  hashText,
   simillarMatrix,
   range,
+  lookup,
+  atLevel,
   withinBound,
   bestPosition,
   pipe
 };
 
-import { Matrix, LazyRNG, Shape } from "./types";
+import { Matrix, LazyRNG, Shape, LevelTable } from "./types";
 
 /** Misc Helper Utilities */
 
@@ -36,6 +40,29 @@ import { Matrix, LazyRNG, Shape } from "./types";
 const range = (n: number): ReadonlyArray<number> =>
   [...Array(n)].map((_, i) => i);
 
+/**
+ * Looks up a value in a table indexed by a count e.g. lines cleared, capping at the last entry.
+ *
+ * @param {ReadonlyArray<T>} table - The values for each count.
+ * @returns {(n: number) => T} A function that takes the count.
+ */
+const lookup =
+  <T>(table: ReadonlyArray<T>) =>
+  (n: number): T =>
+    table[Math.min(n, table.length - 1)];
+
+/**
+ * Finds the entry of a table that is in effect at a level i.e. the last one taking effect at or below it,
+ * or the first one for levels below all of them.
+ *
+ * @param {LevelTable<T>} table - The entries, along with the level each takes effect from.
+ * @returns {(level: number) => T} A function that takes the level.
+ */
+const atLevel =
+  <T>(table: LevelTable<T>) =>
+  (level: number): T =>
+    table.reduce((found, [from, entry]) => (level >= from ? entry : found), table[0][1]);
+
 /**
  * Returns the centered position for a tetromino shape, taking into account its emptiness,
  * based on the given step and direction.
@@ -219,6 +246,14 @@ abstract class RNG {
    * @returns a hash of the seed
    */
   public static hash = (seed: number) => (RNG.a * seed + RNG.c) % RNG.m;
+
+  /**
+   * Scales a hash down to an integer in the range [0,n), using its high bits.
+   * @param {number} hash
+   * @returns a function that takes the upper bound n
+   */
+  public static scale = (hash: number) => (n: number) =>
+    Math.floor((hash / RNG.m) * n);
 }
 
 /**
@@ -235,3 +270,21 @@ const lazyRNG = (seed: number = 0) => {
     };
   })(seed);
 };
+
+/**
+ * Picks an integer in the range [0,n) from the current value of the RNG.
+ * The low bits of the LCG are poorly distributed, so prefer this over `value % n`.
+ *
+ * @param {LazyRNG} rng - The lazy RNG to read from.
+ * @returns {(n: number) => number} - A function that takes the (exclusive) upper bound n.
+ */
+const randomInt = (rng: LazyRNG) => RNG.scale(rng.value);
+
+/**
+ * Hashes some text down to a number e.g. to tell apart things too long to be told apart by their text.
+ *
+ * @param {string} text - The text to hash.
+ * @returns {number} - The hash, which is the same for the same text.
+ */
+const hashText = (text: string): number =>
+  [...text].reduce((hash, char) => RNG.hash(hash ^ char.charCodeAt(0)), 0);
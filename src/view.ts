@@ -6,22 +6,56 @@
  * 
  */
 
-export { render };
+export { render, renderPlayback, renderBindings, renderHandling };
 import { Tetromino, TetrominoFactory } from "./tetrominos";
-import { Player, Pos, Shape, State, TetrominoColour } from "./types";
-import { Block, SELF, Viewport } from "./const";
-import { bestPosition } from "./utils";
+import { Action, Bindings, Board, Clear, GameEvent, Handling, Hint, Key, Player, Pos, State, TetrominoColour } from "./types";
+import { Drop, Hold, Move, Rotate } from "./state";
+import { Constants, SELF, Viewport } from "./const";
+import { bestPosition, firstFilledRow, lastFilledRow } from "./utils";
+import { ratesOf } from "./stats";
+import { gradeOf, sectionEnd } from "./master";
+
+/**
+ * Grid: How the blocks are laid out on a canvas, as the size of a block in pixels and the first row shown.
+ */
+type Grid = Readonly<{ size: number; top: number }>;
+
+// The previews show every row, at the same size whatever the board.
+const PREVIEW_GRID: Grid = { size: Viewport.BLOCK_SIZE, top: 0 };
+
+/**
+ * Fits a board into the window: the blocks are as big as the width and height of the board allow,
+ * and the buffer rows on top are left out.
+ *
+ * @param {Board} board - The board to show.
+ * @returns {Grid} How the board is laid out on the canvas.
+ */
+const gridOf = ({ width, height, buffer }: Board): Grid => ({
+  size: Math.max(
+    Viewport.MIN_BLOCK_SIZE,
+    Math.floor(
+      Math.min(
+        Viewport.MAX_BLOCK_SIZE,
+        Viewport.MAX_CANVAS_WIDTH / width,
+        (window.innerHeight * Viewport.WINDOW_SHARE) / height
+      )
+    )
+  ),
+  top: buffer,
+});
 
 
 /**
  * Draws a Tetromino shape on a SVG canvas.
  * 
  * @param {SVGElement} canvas - The SVG canvas where the Tetromino will be drawn.
+ * @param {Grid} grid - How the blocks are laid out on the canvas.
  * @param {Tetromino} tetromino - the Tetromino.
  * @param {TetrominoColour} [override] - Optional. An override colour to use instead of the supposed original colour.
  */
 const drawTetromino = (
   canvas: SVGElement,
+  grid: Grid,
   { shape, colour, pos }: Tetromino,
   override?: TetrominoColour
 ) => {
@@ -32,6 +66,7 @@ const drawTetromino = (
       if (cell)
         drawBlock(
           canvas,
+          grid,
           new Pos(x,y).add(pos),
           override ? override : colour
         );
@@ -43,22 +78,24 @@ const drawTetromino = (
  * Draws a single block on a SVG canvas.
  * 
  * @param {SVGElement} canvas - The SVG canvas where the block will be drawn.
- * @param {Pos} displacement - The position (x,y) of the block on the canvas.
+ * @param {Grid} grid - How the blocks are laid out on the canvas.
+ * @param {Pos} displacement - The position (x,y) of the block on the grid.
  * @param {TetrominoColour} color - The colour of the block.
  */
 const drawBlock = (
   canvas: SVGElement,
+  { size, top }: Grid,
   displacement: Pos,
   color: TetrominoColour
 ) => {
-  // Don't draw blocks that would be positioned above the canvas (active tetromino start above the floor (grid).
-  if (displacement.y < 0) return;
+  // Don't draw blocks that would be positioned above the canvas i.e. in the buffer, or above the floor (grid).
+  if (displacement.y < top) return;
 
   const cell = createSvgElement(canvas.namespaceURI, "rect", {
-    height: `${Block.HEIGHT}`,
-    width: `${Block.WIDTH}`,
-    x: `${Block.WIDTH * displacement.x}`,
-    y: `${Block.HEIGHT * displacement.y}`,
+    height: `${size}`,
+    width: `${size}`,
+    x: `${size * displacement.x}`,
+    y: `${size * (displacement.y - top)}`,
     style: `fill: ${color}; border: none;`,
     class: "removable", // Assigns the 'removable' class for easier deletion as a batch.
   });
@@ -66,6 +103,76 @@ const drawBlock = (
   canvas.appendChild(cell);
 };
 
+/**
+ * Draws the outline of a Tetromino in its colour on a SVG canvas, leaving what is underneath visible.
+ *
+ * @param {SVGElement} canvas - The SVG canvas where the outline will be drawn.
+ * @param {Grid} grid - How the blocks are laid out on the canvas.
+ * @param {Tetromino} tetromino - the Tetromino.
+ */
+const drawOutline = (canvas: SVGElement, { size, top }: Grid, { shape, colour, pos }: Tetromino) =>
+  shape.forEach((row, y) =>
+    row.forEach((cell, x) => {
+      const { x: left, y: depth } = new Pos(x, y).add(pos);
+      // Like drawBlock, nothing above the canvas is drawn.
+      if (!cell || depth < top) return;
+      canvas.appendChild(
+        createSvgElement(canvas.namespaceURI, "rect", {
+          height: `${size - 2}`,
+          width: `${size - 2}`,
+          x: `${size * left + 1}`,
+          y: `${size * (depth - top) + 1}`,
+          style: `fill: none; stroke: ${colour}; stroke-width: 2;`,
+          class: "removable",
+        })
+      );
+    })
+  );
+
+/**
+ * Draws the incoming garbage as bars on the meter, the oldest batch (the first to come up) at the bottom.
+ *
+ * @param {SVGElement} canvas - The SVG canvas of the meter.
+ * @param {number} size - The size of a block of the grid next to it, in pixels.
+ * @param {number} height - The height of the meter, in pixels.
+ * @param {ReadonlyArray<number>} garbageQueue - The batches of incoming garbage lines.
+ */
+const drawGarbageMeter = (
+  canvas: SVGElement,
+  size: number,
+  height: number,
+  garbageQueue: ReadonlyArray<number>
+) =>
+  garbageQueue.reduce((below, lines) => {
+    const cell = createSvgElement(canvas.namespaceURI, "rect", {
+      height: `${size * lines}`,
+      width: `${Viewport.METER_WIDTH}`,
+      x: "0",
+      y: `${height - size * (below + lines)}`,
+      style: "fill: red;",
+      class: "removable",
+    });
+    canvas.appendChild(cell);
+    return below + lines;
+  }, 0);
+
+/**
+ * Scales the boxes laid over a canvas (e.g. game over) down to fit it, and centres them on it.
+ * They are laid out for a canvas of the usual size, and are never scaled up.
+ *
+ * @param {SVGElement} canvas - The SVG canvas the boxes are on.
+ * @param {number} width - The width of the canvas, in pixels.
+ * @param {number} height - The height of the canvas, in pixels.
+ */
+const fitOverlays = (canvas: SVGElement, width: number, height: number) => {
+  const scale = Math.min(1, width / Viewport.OVERLAY_WIDTH, height / Viewport.OVERLAY_HEIGHT);
+  const left = (width - Viewport.OVERLAY_WIDTH * scale) / 2;
+  const top = (height - Viewport.OVERLAY_HEIGHT * scale) / 2;
+  canvas
+    .querySelectorAll(":scope > g")
+    .forEach((overlay) => overlay.setAttribute("transform", `translate(${left} ${top}) scale(${scale})`));
+};
+
 /**
  * Creates an SVG element with the given properties.
  *
@@ -104,11 +211,86 @@ const show = (canvas: HTMLElement) => (elem: SVGGraphicsElement) => {
 const hide = (elem: SVGGraphicsElement) =>
   elem.setAttribute("visibility", "hidden");
 
+/**
+ * Formats a number of frames as a time e.g. "1:05.43".
+ *
+ * @param {number} frames - The number of frames elapsed.
+ * @returns {string} The time in minutes, seconds and hundredths.
+ */
+const formatTime = (frames: number): string => {
+  const hundredths = Math.floor((frames * Constants.FRAME_MS) / 10);
+  const minutes = Math.floor(hundredths / 6000);
+  const seconds = Math.floor(hundredths / 100) % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${minutes}:${pad(seconds)}.${pad(hundredths % 100)}`;
+};
+
+/**
+ * Summarises how the game went, for the game over overlay.
+ *
+ * @param {State} s - The final state of the game.
+ * @returns {string} The summary, depending on the mode.
+ */
+const summarise = (s: State): string =>
+  s.config.leveling === "sections"
+    ? `Grade ${gradeOf(s)}, ${formatTime(s.frames)}`
+    : s.mode.kind === "ultra" || s.mode.kind === "marathon"
+    ? `${s.score} points, ${s.cleared} lines`
+    : s.completed && s.bestTime === s.frames
+    ? `${formatTime(s.frames)} (New Best!)`
+    : s.completed
+    ? formatTime(s.frames)
+    : "";
+
+/**
+ * Describes a clear in the words players use e.g. "B2B T-Spin Double, Combo 2".
+ *
+ * @param {Clear} clear - What the last locked piece achieved.
+ * @returns {string} The description of the clear.
+ */
+const describeClear = ({ lines, tSpin, combo, backToBack, perfectClear }: Clear): string => {
+  const lineNames = ["", "Single", "Double", "Triple", "Tetris"];
+  const name = [
+    backToBack ? "B2B" : "",
+    tSpin === "full" ? "T-Spin" : tSpin === "mini" ? "T-Spin Mini" : "",
+    lineNames[Math.min(lines, lineNames.length - 1)],
+  ].filter(Boolean).join(" ");
+
+  return [
+    name,
+    combo > 0 ? `Combo ${combo}` : "",
+    perfectClear ? "Perfect Clear" : "",
+  ].filter(Boolean).join(", ");
+};
+
+/**
+ * Writes out the inputs of a hint the way they are pressed e.g. "↻ ← ← Drop".
+ *
+ * @param {ReadonlyArray<GameEvent>} inputs - The inputs of the hint.
+ * @returns {string} The inputs, in order.
+ */
+const describeInputs = (inputs: ReadonlyArray<GameEvent>): string =>
+  inputs
+    .map((e) =>
+      e instanceof Move
+        ? e.displacement.x < 0 ? "←" : "→"
+        : e instanceof Rotate
+        ? e.direction === 2 ? "180" : e.direction > 0 ? "↻" : "↺"
+        : e instanceof Hold
+        ? "Hold"
+        : e instanceof Drop
+        ? "Drop"
+        : ""
+    )
+    .filter(Boolean)
+    .join(" ");
+
 /**
  * Renders the game's current state. i.e. updates the view
  * 
  * @param {Player} player - Determines which player's canvas to update (SELF or OPPONENT).
  * @param {state} s - The current state of the game to update the view with
+ * @param {Hint} hint - Optional. The placement hint to show, when training.
  */
 const render = (player: Player) => {
   // suffix to identify which view to update
@@ -128,6 +310,9 @@ const render = (player: Player) => {
   const holding = document.querySelector(
     `#svgHolding${suffix}`
   ) as SVGGraphicsElement & HTMLElement;
+  const meter = document.querySelector(
+    `#svgGarbage${suffix}`
+  ) as SVGGraphicsElement & HTMLElement;
   const gameover = document.querySelector(
     `#gameOver${suffix}`
   ) as SVGGraphicsElement & HTMLElement;
@@ -138,6 +323,9 @@ const render = (player: Player) => {
     `#paused${suffix}`
   ) as SVGGraphicsElement & HTMLElement;
   const container = document.querySelector(`#main${suffix}`) as HTMLElement;
+  const levelLabel = document.querySelector(
+    `#levelLabel${suffix}`
+  ) as HTMLElement;
   const levelText = document.querySelector(
     `#levelText${suffix}`
   ) as HTMLElement;
@@ -147,23 +335,75 @@ const render = (player: Player) => {
   const highScoreText = document.querySelector(
     `#highScoreText${suffix}`
   ) as HTMLElement;
+  const comboText = document.querySelector(
+    `#comboText${suffix}`
+  ) as HTMLElement;
+  const clearText = document.querySelector(
+    `#clearText${suffix}`
+  ) as HTMLElement;
+  const linesLabel = document.querySelector(
+    `#linesLabel${suffix}`
+  ) as HTMLElement;
+  const linesText = document.querySelector(
+    `#linesText${suffix}`
+  ) as HTMLElement;
+  const timeText = document.querySelector(
+    `#timeText${suffix}`
+  ) as HTMLElement;
+  const bestText = document.querySelector(
+    `#bestText${suffix}`
+  ) as HTMLElement;
+  const splitsText = document.querySelector(
+    `#splitsText${suffix}`
+  ) as HTMLElement;
+  const gameOverText = document.querySelector(
+    `#gameOverText${suffix}`
+  ) as HTMLElement;
+  const summaryText = document.querySelector(
+    `#summaryText${suffix}`
+  ) as HTMLElement;
+  const rateText = document.querySelector(
+    `#rateText${suffix}`
+  ) as HTMLElement;
+  const efficiencyText = document.querySelector(
+    `#efficiencyText${suffix}`
+  ) as HTMLElement;
+  const ppsText = document.querySelector(
+    `#ppsText${suffix}`
+  ) as HTMLElement;
+  const apmText = document.querySelector(
+    `#apmText${suffix}`
+  ) as HTMLElement;
+  const kppText = document.querySelector(
+    `#kppText${suffix}`
+  ) as HTMLElement;
+  const lpmText = document.querySelector(
+    `#lpmText${suffix}`
+  ) as HTMLElement;
+  const faultsText = document.querySelector(
+    `#faultsText${suffix}`
+  ) as HTMLElement;
+  const finesseText = document.querySelector(
+    `#finesseText${suffix}`
+  ) as HTMLElement;
+  const hintText = document.querySelector(
+    `#hintText${suffix}`
+  ) as HTMLElement;
 
   // Show differs for SELF and OPPONENT rendering
   const showForSelf = show(svg);
   const showForOther = show(otherSvg);
 
-  svg.setAttribute("height", `${Viewport.CANVAS_HEIGHT}`);
-  svg.setAttribute("width", `${Viewport.CANVAS_WIDTH}`);
-  preview.setAttribute("height", `${Viewport.PREVIEW_HEIGHT}`);
   preview.setAttribute("width", `${Viewport.PREVIEW_WIDTH}`);
   holding.setAttribute("height", `${Viewport.PREVIEW_HEIGHT}`);
   holding.setAttribute("width", `${Viewport.PREVIEW_WIDTH}`);
+  meter.setAttribute("width", `${Viewport.METER_WIDTH}`);
 
   /**
    * Computes the best (centered) x-position for a Tetromino in the preview area.
    * @param {Shape} shape - The shape of the tetromino
    */
-  const centerXPosition = bestPosition(Viewport.PREVIEW_WIDTH / Block.WIDTH)(
+  const centerXPosition = bestPosition(Viewport.PREVIEW_WIDTH / Viewport.BLOCK_SIZE)(
     "x"
   );
 
@@ -171,27 +411,53 @@ const render = (player: Player) => {
    * Computes the best (centered) y-position for a Tetromino in the preview area.
    * @param {Shape} shape - The shape of the tetromino
    */
-  const centerYPosition = bestPosition(Viewport.PREVIEW_HEIGHT / Block.HEIGHT)(
+  const centerYPosition = bestPosition(Viewport.PREVIEW_HEIGHT / Viewport.BLOCK_SIZE)(
     "y"
   );
 
   /**
-   * Recreated from a shape, a Tetromino positioned optimally for display in the preview / hold box area.
+   * Recreated from a Tetromino, one positioned optimally for display in the preview / hold box area.
    *
-   * @param {Shape} shape - The shape of the Tetromino.
+   * @param {Tetromino} tetromino - The Tetromino.
    * @returns {Tetromino} The Tetromino adjusted st its optimal center.
    */
-  const showSmallTetromino = (shape: Shape) =>
-    TetrominoFactory.getOriginalTetromino(shape).moveBy(
-      new Pos(centerXPosition(shape), centerYPosition(shape))
+  const showSmallTetromino = (tetromino: Tetromino) =>
+    TetrominoFactory.getOriginalTetromino(tetromino).moveBy(
+      new Pos(centerXPosition(tetromino.shape), centerYPosition(tetromino.shape))
+    );
+
+  /**
+   * Recreated from a Tetromino, one positioned optimally for display in its slot of the next queue.
+   *
+   * @param {Tetromino} tetromino - The Tetromino.
+   * @param {number} slot - The position of the Tetromino in the queue, 0 being the next one to spawn.
+   * @param {number} slotHeight - The height of every slot, in pixels.
+   * @returns {Tetromino} The Tetromino adjusted st its optimal center within the slot.
+   */
+  const showQueuedTetromino = (tetromino: Tetromino, slot: number, slotHeight: number) =>
+    TetrominoFactory.getOriginalTetromino(tetromino).moveBy(
+      new Pos(
+        centerXPosition(tetromino.shape),
+        bestPosition(slotHeight / Viewport.BLOCK_SIZE)("y")(tetromino.shape) +
+          (slot * slotHeight) / Viewport.BLOCK_SIZE
+      )
     );
 
-  return (s: State) => {
+  return (s: State, hint?: Hint) => {
     // Remove all removable elements in our container
     Array.from(container.querySelectorAll(".removable")).forEach((element) => {
       element.parentNode!.removeChild(element);
     });
 
+    // Size the canvas to the board and the window, which may have changed since the last frame
+    const grid = gridOf(s.config.board);
+    const width = grid.size * s.config.board.width;
+    const height = grid.size * s.config.board.height;
+    svg.setAttribute("width", `${width}`);
+    svg.setAttribute("height", `${height}`);
+    meter.setAttribute("height", `${height}`);
+    fitOverlays(svg, width, height);
+
     // Only if I am rendering MY state, show disconnected on the other player's svg canvas
     if (player == SELF) {
       if (!s.opponentConnected) {
@@ -201,34 +467,92 @@ const render = (player: Player) => {
       }
     }
 
-    levelText.textContent = String(s.level);
+    // Ultra counts down the time left in place of the level, and sections show where the section ends too
+    levelLabel.textContent = s.mode.kind === "ultra" ? "Left: " : "Level: ";
+    levelText.textContent =
+      s.mode.kind === "ultra"
+        ? formatTime(Math.max(s.mode.frames - s.frames, 0))
+        : s.config.leveling === "sections"
+        ? `${s.level}/${sectionEnd(s.level)}`
+        : String(s.level);
     scoreText.textContent = String(s.score);
     highScoreText.textContent = String(s.highScore);
+    comboText.textContent = String(Math.max(s.combo, 0));
+    clearText.textContent = s.lastClear ? describeClear(s.lastClear) : "";
+    hintText.textContent = hint && !s.gameEnd ? describeInputs(hint.inputs) : "";
 
-    // Draw next tetromino
-    drawTetromino(preview, showSmallTetromino(s.next.shape));
+    // Sprints show the progress towards their line target, and a split every few lines.
+    // Dig only counts the garbage lines dug through.
+    linesLabel.textContent = s.mode.kind === "dig" ? "Dug: " : "Lines: ";
+    linesText.textContent =
+      s.mode.kind === "sprint"
+        ? `${s.cleared}/${s.mode.lines}`
+        : s.mode.kind === "dig"
+        ? `${s.garbageCleared}/${s.mode.lines}`
+        : String(s.cleared);
+    timeText.textContent = formatTime(s.frames);
+    bestText.textContent = s.bestTime === undefined ? "-" : formatTime(s.bestTime);
+    // Performance statistics, which keep updating as the time goes by
+    const rates = ratesOf(s);
+    ppsText.textContent = rates.pps.toFixed(2);
+    apmText.textContent = rates.apm.toFixed(1);
+    kppText.textContent = rates.kpp.toFixed(2);
+    lpmText.textContent = rates.lpm.toFixed(1);
+
+    // Finesse: the inputs wasted this game, and how the last piece was placed against the fewest inputs
+    faultsText.textContent = String(s.finesseFaults);
+    finesseText.textContent = s.lastFinesse
+      ? `${s.lastFinesse.inputs} / ${s.lastFinesse.minimal}`
+      : "-";
+    splitsText.textContent = s.splits
+      .map((frames, i) => `${(i + 1) * Constants.SPLIT_LINES}: ${formatTime(frames)}`)
+      .join("\n");
+
+    // Draw the next tetrominos, stacked in the order they will spawn. Taller pieces e.g. pentominoes get taller slots.
+    const tallest = Math.max(...s.queue.map(({ shape }) => lastFilledRow(shape) - firstFilledRow(shape) + 1));
+    const slotHeight = Math.max(Viewport.QUEUE_SLOT_HEIGHT, Viewport.BLOCK_SIZE * (tallest + 0.5));
+    preview.setAttribute(
+      "height",
+      `${slotHeight * s.queue.length}`
+    );
+    s.queue.forEach((tetromino, slot) =>
+      drawTetromino(preview, PREVIEW_GRID, showQueuedTetromino(tetromino, slot, slotHeight))
+    );
 
     // Draw holding tetromino
     if (s.hold) {
-      drawTetromino(holding, showSmallTetromino(s.hold.shape));
+      drawTetromino(holding, PREVIEW_GRID, showSmallTetromino(s.hold));
     }
 
-    // Draw floor i.e. grid
+    // Draw the incoming garbage meter, one bar per batch stacked up from the bottom
+    drawGarbageMeter(meter, grid.size, height, s.garbageQueue);
+
+    // Draw floor i.e. grid, apart from the buffer
     s.floor.forEach((row, y) => {
       row.forEach((cell, x) => {
-        if (cell) drawBlock(svg, new Pos(x,y), cell);
+        if (cell) drawBlock(svg, grid, new Pos(x,y), cell);
       });
     });
 
     // Draw highlight if not game over yet, otherwise we need to show gameover for ourself
+    // Neither the piece nor its ghost are there until it enters, and some rules have no ghost at all.
     if (!s.gameEnd) {
-      drawTetromino(svg, s.highlight, "grey");
+      if (!s.entryDelay && s.config.ghost) drawTetromino(svg, grid, s.highlight, "grey");
+      if (hint) drawOutline(svg, grid, hint.piece); // Where the piece should go, when training
       hide(gameover);
     } else {
+      gameOverText.textContent = !s.completed
+        ? "Game Over"
+        : s.mode.kind === "ultra"
+        ? "Time's Up"
+        : "Finished";
+      summaryText.textContent = summarise(s);
+      rateText.textContent = `${rates.pps.toFixed(2)} PPS, ${rates.apm.toFixed(1)} APM`;
+      efficiencyText.textContent = `${rates.kpp.toFixed(2)} KPP, ${rates.lpm.toFixed(1)} LPM`;
       showForSelf(gameover);
     }
 
-    drawTetromino(svg, s.active);
+    if (!s.entryDelay) drawTetromino(svg, grid, s.active);
 
     // If it's paused, show paused on our canvas
     if (s.isPaused) {
@@ -238,3 +562,64 @@ const render = (player: Player) => {
     }
   };
 };
+
+/**
+ * Updates the replay controls to show where the playback is at, or hides them when nothing is being watched.
+ *
+ * @param {Readonly<{ frame: number, frames: number }>} [playback] - Optional. The frame being shown,
+ * and the number of frames in the replay.
+ */
+const renderPlayback = (playback?: Readonly<{ frame: number; frames: number }>) => {
+  const controls = document.querySelector("#playbackControls") as HTMLElement;
+  const slider = document.querySelector("#replayFrame") as HTMLInputElement;
+  const time = document.querySelector("#replayTime") as HTMLElement;
+
+  controls.hidden = !playback;
+  if (playback) {
+    slider.max = String(playback.frames);
+    slider.value = String(playback.frame);
+    time.textContent = `${formatTime(playback.frame)} / ${formatTime(playback.frames)}`;
+  }
+};
+
+/**
+ * Names a key the way it is printed on the keyboard e.g. "Z" for "KeyZ", or "←" for "ArrowLeft".
+ *
+ * @param {Key} key - The key.
+ * @returns {string} Its name.
+ */
+const describeKey = (key: Key): string => {
+  const arrows: Readonly<Record<string, string>> = {
+    ArrowLeft: "←",
+    ArrowRight: "→",
+    ArrowUp: "↑",
+    ArrowDown: "↓",
+  };
+  return arrows[key] ?? key.replace(/^(Key|Digit)/, "");
+};
+
+/**
+ * Lists the keys bound to each action in the settings panel.
+ *
+ * @param {Bindings} bindings - The key bindings.
+ */
+const renderBindings = (bindings: Bindings) =>
+  document.querySelectorAll<HTMLElement>("#settings .keys").forEach((cell) => {
+    const keys = bindings[cell.dataset.action as Action];
+    cell.textContent = keys.length ? keys.map(describeKey).join(", ") : "-";
+  });
+
+/**
+ * Shows the handling in the settings panel. The soft drop factor means nothing while soft drop is sonic.
+ *
+ * @param {Handling} handling - The handling.
+ */
+const renderHandling = ({ das, arr, dasCut, softDrop }: Handling) => {
+  const input = (id: string) => document.querySelector(`#${id}`) as HTMLInputElement;
+  input("dasInput").value = String(das);
+  input("arrInput").value = String(arr);
+  input("dasCutInput").value = String(dasCut);
+  input("sonicToggle").checked = softDrop === "sonic";
+  input("softDropInput").disabled = softDrop === "sonic";
+  if (softDrop !== "sonic") input("softDropInput").value = String(softDrop);
+};
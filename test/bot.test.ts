@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { Drop, GameEngine } from "../src/engine";
+import { bestOf, bestPlacement, createBot, isDone, refine, startSearch, stepBot } from "../src/bot";
+import { Bot } from "../src/types";
+
+// Lets the bot play its own game for a number of frames.
+const play = (engine: GameEngine, bot: Bot, frames: number): Readonly<[GameEngine, Bot]> =>
+  Array.from({ length: frames }).reduce<Readonly<[GameEngine, Bot]>>(([e, b]) => {
+    const [next, inputs] = stepBot(b, e.getState());
+    return [e.step(inputs), next];
+  }, [engine, bot]);
+
+describe("search", () => {
+  it("places a piece a step, then judges one of the best placements a step", () => {
+    const s = GameEngine.create({ seed: 4 }).getState();
+    const steps = Array.from({ length: 7 }).reduce<ReturnType<typeof startSearch>[]>(
+      (searches) => [...searches, refine(searches[searches.length - 1])],
+      [startSearch(s, true, true)]
+    );
+    // The active piece and the held one, then five placements along with the piece after them.
+    expect(steps.map(isDone)).toEqual([false, false, false, false, false, false, false, true]);
+    expect(steps[1].pending.length).toBe(1);
+    expect(steps[2].ranked.length).toBeGreaterThan(steps[1].ranked.length);
+    expect(bestOf(steps[7]).inputs[bestOf(steps[7]).inputs.length - 1]).toBeInstanceOf(Drop);
+  });
+  it("finds the same placement all in one go", () => {
+    const s = GameEngine.create({ seed: 4 }).getState();
+    const search = [1, 2, 3, 4, 5, 6].reduce((searching) => refine(searching), startSearch(s, false, true));
+    expect(isDone(search)).toBe(true);
+    const { pos, rotationState } = bestOf(search).piece;
+    expect([bestPlacement(s).piece.pos.x, bestPlacement(s).piece.pos.y]).toEqual([pos.x, pos.y]);
+    expect(bestPlacement(s).piece.rotationState).toBe(rotationState);
+  });
+});
+
+describe("bestPlacement", () => {
+  it("gives the inputs that land the piece right where the hint shows it", () => {
+    const engine = GameEngine.create({ seed: 6 });
+    const hint = bestPlacement(engine.getState());
+    const before = engine.step(hint.inputs.slice(0, -1)).getState().active;
+    expect([before.pos.x, before.rotationState]).toEqual([hint.piece.pos.x, hint.piece.rotationState]);
+    const landed = engine.step(hint.inputs).getState().floor;
+    hint.piece.shape.forEach((row, y) =>
+      row.forEach((cell, x) => cell && expect(landed[hint.piece.pos.y + y][hint.piece.pos.x + x]).toBeTruthy())
+    );
+  });
+});
+
+describe("stepBot", () => {
+  it("stacks and clears lines on hard without topping out", () => {
+    const [engine] = play(GameEngine.create({ seed: 2 }), createBot("hard", 1), 1500);
+    expect(engine.getState().gameEnd).toBe(false);
+    expect(engine.getState().cleared).toBeGreaterThan(0);
+  });
+  it("drops its plan once the piece is gone before it was played out", () => {
+    const planning = (engine: GameEngine, bot: Bot): Readonly<[GameEngine, Bot]> =>
+      bot.plan.length ? [engine, bot] : planning(...play(engine, bot, 1));
+    const [engine, bot] = planning(GameEngine.create({ seed: 2 }), createBot("medium", 1));
+    const [after, inputs] = stepBot(bot, engine.step([new Drop()]).getState());
+    expect(inputs).toEqual([]);
+    expect(after.plan).toEqual([]);
+  });
+});
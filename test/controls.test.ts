@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { DefaultBindings, bind, isBound, parseBindings, unbind } from "../src/controls";
+
+describe("bindings", () => {
+  it("move a key from the action it was bound to onto the new one", () => {
+    const b = bind("hardDrop", "ArrowUp")(DefaultBindings);
+    expect(b.hardDrop).toEqual(["Space", "ArrowUp"]);
+    expect(b.rotateRight).toEqual([]);
+    expect(isBound(b, "hardDrop")("ArrowUp")).toBe(true);
+    expect(isBound(b, "rotateRight")("ArrowUp")).toBe(false);
+  });
+  it("can leave an action without any key", () => {
+    expect(unbind("pause")(DefaultBindings).pause).toEqual([]);
+    expect(unbind("pause")(DefaultBindings).hold).toEqual(DefaultBindings.hold);
+  });
+  it("are read back from JSON, keeping the defaults for anything missing or broken", () => {
+    const stored = JSON.stringify({ ...bind("hold", "ShiftLeft")(DefaultBindings), pause: [1] });
+    expect(parseBindings(stored).hold).toEqual(["KeyC", "ShiftLeft"]);
+    expect(parseBindings(stored).pause).toEqual(DefaultBindings.pause);
+    expect(parseBindings(JSON.stringify({ hold: ["KeyX"] })).moveLeft).toEqual(DefaultBindings.moveLeft);
+    expect(parseBindings("{")).toEqual(DefaultBindings);
+    expect(parseBindings(null)).toEqual(DefaultBindings);
+  });
+});
@@ -0,0 +1,279 @@
+import { describe, expect, it } from "vitest";
+import { Down, Drop, GameEngine, GarbageOut, Hold, Move, PieceSets, Pos, Presets, Restart, RetryOnFault, Rotate, UseKicks180, parsePieces } from "../src/engine";
+import type { LockDown, Shape, Timings } from "../src/types";
+import { bestPlacement } from "../src/bot";
+
+// Plays the same handful of inputs every few frames for a while.
+const play = (engine: GameEngine, frames: number): GameEngine =>
+  Array.from({ length: frames }).reduce<GameEngine>(
+    (e, _, i) =>
+      e.step(
+        i % 40 === 10
+          ? [new Rotate(1), new Move(new Pos(i % 3 === 0 ? -1 : 1, 0))]
+          : i % 40 === 20
+          ? [new Drop()]
+          : []
+      ),
+    engine
+  );
+
+// The modern rules, with other delays around a piece.
+const timed = (timings: Partial<Timings>) => ({
+  ...Presets.custom,
+  timings: [[0, { ...Presets.custom.timings[0][1], ...timings }] as const],
+});
+
+// Places a piece a frame where the hints would have it, until the game ends.
+const placeBest = (engine: GameEngine, pieces: number): GameEngine =>
+  pieces === 0 || engine.getState().gameEnd
+    ? engine
+    : placeBest(engine.step(bestPlacement(engine.getState()).inputs), pieces - 1);
+
+describe("GameEngine", () => {
+  it("starts a new game", () => {
+    const s = GameEngine.create({ seed: 42 }).getState();
+    expect(s.gameEnd).toBe(false);
+    expect(s.score).toBe(0);
+    expect(s.mode).toEqual({ kind: "marathon" });
+  });
+  it("is deterministic for a seed", () => {
+    const a = play(GameEngine.create({ seed: 7 }), 600).getState();
+    const b = play(GameEngine.create({ seed: 7 }), 600).getState();
+    expect(a.floor).toEqual(b.floor);
+    expect(a.score).toBe(b.score);
+  });
+  it("does not change when stepped", () => {
+    const engine = GameEngine.create();
+    const next = engine.step([new Drop()]);
+    expect(engine.getFrame()).toBe(0);
+    expect(next.getFrame()).toBe(1);
+    expect(engine.getState()).not.toBe(next.getState());
+  });
+  it("restores a serialized game", () => {
+    const engine = play(GameEngine.create({ seed: 3, mode: { kind: "sprint", lines: 40 } }), 500);
+    const restored = GameEngine.deserialize(engine.serialize());
+    expect(restored?.getFrame()).toBe(500);
+    expect(restored?.getState().floor).toEqual(engine.getState().floor);
+    expect(restored?.getState().score).toBe(engine.getState().score);
+    expect(restored?.getState().mode).toEqual({ kind: "sprint", lines: 40 });
+  });
+  it("rejects anything that is not a saved game", () => {
+    expect(GameEngine.deserialize("{}")).toBeUndefined();
+  });
+  it("shows the next pieces in a queue, moving it up by one for every piece played", () => {
+    const colours = (e: GameEngine) => [e.getState().active, ...e.getState().queue].map(({ colour }) => colour);
+    const start = GameEngine.create({ seed: 4, config: { ...Presets.modern, nextCount: 5 } });
+    expect(start.getState().queue.length).toBe(5);
+    const dropped = start.step([new Drop()]);
+    expect(dropped.getState().queue.length).toBe(5);
+    expect(colours(dropped).slice(0, 5)).toEqual(colours(start).slice(1));
+  });
+  it("ends a sprint once its lines are cleared, taking a split every ten lines", () => {
+    const s = placeBest(GameEngine.create({ seed: 1, mode: { kind: "sprint", lines: 10 } }), 200).getState();
+    expect(s.gameEnd).toBe(true);
+    expect(s.completed).toBe(true);
+    expect(s.cleared).toBe(10);
+    expect(s.splits.length).toBe(1);
+    expect(s.bestTime).toBe(s.splits[0]);
+  });
+  it("ends ultra as soon as the time is up, keeping the score", () => {
+    const ultra = placeBest(GameEngine.create({ seed: 1, mode: { kind: "ultra", frames: 30 } }), 29);
+    expect(ultra.getState().gameEnd).toBe(false);
+    const s = ultra.step().getState();
+    expect(s.gameEnd).toBe(true);
+    expect(s.completed).toBe(true);
+    expect(s.score).toBe(ultra.getState().score);
+    expect(s.score).toBeGreaterThan(0);
+  });
+  it("keeps the floor topped up with garbage in dig, and ends once all of it is cleared", () => {
+    const dig = GameEngine.create({ seed: 1, mode: { kind: "dig", lines: 3, rows: 2 } });
+    expect(dig.getState().floor.filter((row) => row.includes("brown")).length).toBe(2);
+    const s = placeBest(dig, 200).getState();
+    expect(s.gameEnd).toBe(true);
+    expect(s.completed).toBe(true);
+    expect(s.garbageCleared).toBe(3);
+    expect(s.floor.some((row) => row.includes("brown"))).toBe(false);
+  });
+  it("counts the inputs wasted on each piece", () => {
+    const left = new Move(new Pos(-1, 0));
+    // Tapping three times to the wall, where holding the key once would do.
+    const tapped = GameEngine.create({ seed: 1 }).step([left]).step([left]).step([left]).step([new Drop()]);
+    expect(tapped.getState().lastFinesse).toEqual({ inputs: 3, minimal: 1 });
+    expect(tapped.getState().finesseFaults).toBe(2);
+
+    // Auto repeats of a held key are free.
+    const held = [true, true, true, true].reduce(
+      (e, repeated) => e.step([new Move(new Pos(-1, 0), repeated)]),
+      tapped.step([left])
+    ).step([new Drop()]);
+    expect(held.getState().lastFinesse).toEqual({ inputs: 1, minimal: 1 });
+    expect(held.getState().finesseFaults).toBe(2);
+  });
+  it("makes pieces placed with faults go again when retrying on fault", () => {
+    const e = GameEngine.create({ seed: 1 })
+      .step([new RetryOnFault(true)])
+      .step([new Rotate(1)])
+      .step([new Rotate(-1)])
+      .step([new Drop()]);
+    expect(e.getState().floor.flat().some(Boolean)).toBe(false);
+    expect(e.getState().active.colour).toBe(GameEngine.create({ seed: 1 }).getState().active.colour);
+    expect(e.getState().finesseFaults).toBe(2);
+  });
+  it("counts pieces and keys for the statistics", () => {
+    const e = GameEngine.create()
+      .step([new Move(new Pos(-1, 0))])
+      .step([new Rotate(1), new Drop()])
+      .step([new Drop()]);
+    expect(e.getState().stats).toEqual({ pieces: 2, keys: 4, attack: 0 });
+  });
+  it("soft drops by a factor of gravity, or straight down when sonic", () => {
+    const start = GameEngine.create();
+    const y = start.getState().active.pos.y;
+    // At level 1 a row takes 48 frames, which soft dropping 20 times as fast brings down to 2.4.
+    const soft = [1, 2, 3, 4, 5, 6]
+      .reduce((e) => e.step([]), start.step([new Down(true, 20)]))
+      .getState();
+    expect(soft.active.pos.y).toBe(y + 2);
+    expect(soft.score).toBeGreaterThan(0);
+
+    const sonic = start.step([new Down(true, "sonic")]).step([]).getState();
+    expect(sonic.active.pos.y).toBe(sonic.highlight.pos.y);
+    expect(sonic.floor.flat().some(Boolean)).toBe(false);
+  });
+  it("kicks a half turn off the wall with the chosen table", () => {
+    // A T (the first piece of seed 5) stood up against the left wall, then turned over into it.
+    const atWall = [1, 2, 3, 4, 5].reduce(
+      (e) => e.step([new Move(new Pos(-1, 0), true)]),
+      GameEngine.create({ seed: 5 }).step([new Rotate(1)])
+    );
+    const turned = (kicks: "none" | "srs+" | "top") =>
+      atWall.step([new UseKicks180(kicks)]).step([new Rotate(2)]).getState().active;
+    expect(turned("none").rotationState).toBe(1);
+    expect(turned("srs+").rotationState).toBe(3);
+    expect(turned("srs+").pos.x).toBe(atWall.getState().active.pos.x + 1);
+    expect(turned("top").rotationState).toBe(3);
+  });
+  it("plays with the rotation system it is started or restarted with", () => {
+    // The T (the first piece of seed 5) spawns flat side up in ARS, one row lower so that it can turn straight away.
+    const ars = GameEngine.create({ seed: 5, rotation: "ars" });
+    expect(ars.getState().active.rotationState).toBe(2);
+    expect(ars.step([new Rotate(1)]).getState().active.rotationState).toBe(3);
+
+    const nrs = ars.step([new Restart(undefined, undefined, "nrs")]);
+    expect(nrs.getState().rotation).toBe("nrs");
+    expect([nrs.getState().active, ...nrs.getState().queue].every((t) => t.system === "nrs")).toBe(true);
+    expect(GameEngine.deserialize(nrs.serialize())?.getState().rotation).toBe("nrs");
+  });
+  it("puts off locking as far as the lock-down mode allows", () => {
+    // Sonic drop to the bottom, then shuffle left and right every frame for two seconds.
+    const shuffle = (lockDown: LockDown) =>
+      Array.from({ length: 120 }).reduce<GameEngine>(
+        (e, _, i) => e.step([new Move(new Pos(i % 2 ? 1 : -1, 0))]),
+        GameEngine.create({ seed: 1, config: timed({ lockDown }) })
+          .step([new Down(true, "sonic")])
+          .step([new Down(false)])
+      ).getState();
+    expect(shuffle("infinite").floor.flat().some(Boolean)).toBe(false);
+    expect(shuffle("extended").floor.flat().some(Boolean)).toBe(true);
+    expect(shuffle("extended").stats.pieces).toBe(1);
+    expect(shuffle("classic").floor.flat().some(Boolean)).toBe(true);
+  });
+  it("holds the next piece back for the entry delay, and turns it as it enters", () => {
+    // The next piece enters on the 10th frame after the lock, so only the last of these moves gets through.
+    const locked = GameEngine.create({ seed: 5, config: timed({ are: 10 }) }).step([new Drop()]);
+    const waiting = locked.getState().active;
+    const entered = Array.from({ length: 9 }).reduce<GameEngine>(
+      (e) => e.step([new Move(new Pos(1, 0))]),
+      locked.step([new Rotate(1)])
+    ).getState().active;
+    expect(entered.pos.x).toBe(waiting.pos.x + 1);
+    expect(entered.rotationState).toBe(1);
+  });
+  it("plays classic from the start level without hold or hard drop, locking once grounded", () => {
+    // At the kill screen, pieces fall a row every frame.
+    const classic = GameEngine.create({ seed: 1, config: { ...Presets.classic, startLevel: 29 } });
+    const pressed = classic.step([new Drop(), new Hold()]).getState();
+    expect(classic.getState().level).toBe(29);
+    expect(pressed.hold).toBeUndefined();
+    expect(pressed.active.pos.y).toBe(classic.getState().active.pos.y + 1);
+
+    const landed = Array.from({ length: 25 }).reduce<GameEngine>((e) => e.step(), classic).getState();
+    expect(landed.stats.pieces).toBe(1);
+  });
+  it("counts the master level up by every piece, and holds the next one back for the section's ARE", () => {
+    const master = GameEngine.create({ seed: 1, config: Presets.master });
+    const dropped = master.step([new Drop()]).getState();
+    expect(master.getState().level).toBe(0);
+    expect(dropped.level).toBe(1);
+    expect(dropped.entryDelay).toBe(25);
+  });
+  it("restarts with the rules of a preset, along with its rotation system", () => {
+    const classic = GameEngine.create().step([new Restart(undefined, undefined, undefined, Presets.classic)]);
+    const s = classic.getState();
+    expect(s.config.preset).toBe("classic");
+    expect(s.rotation).toBe("nrs");
+    expect(s.level).toBe(0);
+    expect(s.queue.length).toBe(1);
+    expect(s.frames).toBe(0);
+    expect(s.restarts).toBe(1);
+    expect(GameEngine.deserialize(classic.serialize())?.getState().config.preset).toBe("classic");
+  });
+  it("deals a whole bag after restarting with new rules", () => {
+    const restarted = GameEngine.create({ seed: 1 }).step([new Restart(undefined, undefined, undefined, { ...Presets.modern, nextCount: 6 })]);
+    const s = restarted.getState();
+    expect(new Set([s.active, ...s.queue].map(({ colour }) => colour)).size).toBe(7);
+  });
+  it("receives garbage as messy as the rules have it", () => {
+    // The garbage comes up with the next lock, which clears nothing.
+    const holes = (messiness: "clean" | "cheese") =>
+      GameEngine.create({ seed: 2, config: { ...Presets.custom, messiness } })
+        .step([new GarbageOut(6)])
+        .step([new Drop()])
+        .getState()
+        .floor.filter((row) => row.includes("brown"))
+        .map((row) => row.indexOf(0));
+    expect(new Set(holes("clean")).size).toBe(1);
+    expect(holes("cheese").every((h, i, all) => i === 0 || h !== all[i - 1])).toBe(true);
+  });
+  it("plays on a custom board, spawning in the hidden rows and topping out once the stack is in the way", () => {
+    const board = { width: 4, height: 6, buffer: 2 };
+    const mini = GameEngine.create({ seed: 3, config: { ...Presets.custom, board } });
+    const s = mini.getState();
+    expect(s.floor.length).toBe(8);
+    expect(s.floor.every((row) => row.length === 4)).toBe(true);
+    expect(s.active.validPos(s.floor)).toBe(true);
+    expect(s.active.pos.y + s.active.shape.findIndex((row) => row.some(Boolean))).toBe(0);
+
+    const drops = Array.from({ length: 12 }).reduce<GameEngine>((e) => e.step([new Drop()]), mini);
+    expect(drops.getState().gameEnd).toBe(true);
+  });
+  it("deals from the piece set of the config, including one read from JSON", () => {
+    const cells = (shape: Shape = []) => shape.flat().filter(Boolean).length;
+    const penta = GameEngine.create({ seed: 7, config: { ...Presets.custom, pieces: PieceSets.pentominoes } });
+    const s = penta.getState();
+    expect([s.active, ...s.queue].every(({ shape }) => cells(shape) === 5)).toBe(true);
+    const held = penta.step([new Hold()]).getState().hold;
+    expect(held).toBeDefined();
+    expect(cells(held?.shape)).toBe(5);
+
+    const pieces = parsePieces('[{ "shape": [[1, 1], [1, 0]], "colour": "#ff8800", "kicks": [[[0, 0]], [[0, 0]], [[0, 0]], [[0, 0]]] }]');
+    expect(parsePieces('[{ "shape": [[1, 1], [1, 0]], "colour": "brown" }]')).toBeUndefined();
+    expect(pieces).toBeDefined();
+    const own = GameEngine.create({ seed: 7, config: { ...Presets.custom, pieces: pieces ?? [] } }).getState();
+    expect(own.active.colour).toBe("#ff8800");
+    expect(own.queue.every(({ shape }) => cells(shape) === 3)).toBe(true);
+  });
+  it("spawns a piece of one's own no further than the edges of the board, however far its offset goes", () => {
+    const board = { width: 6, height: 8, buffer: 2 };
+    const spawned = (spawn: Readonly<[number, number]>) =>
+      GameEngine.create({ config: { ...Presets.custom, board, pieces: [{ shape: [[1, 1], [1, 1]], colour: "#ff8800", spawn }] } });
+    [[50, 0], [-50, 0], [0, 50], [0, -50]].forEach(([right, down]) => {
+      const s = spawned([right, down]).getState();
+      expect(s.active.validPos(s.floor)).toBe(true);
+      // Every cell of it is still there once it lands.
+      expect(spawned([right, down]).step([new Drop()]).getState().floor.flat().filter(Boolean).length).toBe(4);
+    });
+    expect(spawned([50, 0]).getState().active.pos.x).toBe(4);
+    expect(spawned([0, 50]).getState().active.pos.y).toBe(8);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { attackOf, cancelGarbage, garbageRNG, garbageRows } from "../src/garbage";
+import { Constants } from "../src/const";
+import { Clear, Floor } from "../src/types";
+
+// The column of the hole of every row.
+const holesOf = (rows: Floor) => rows.map((row) => row.findIndex((cell) => !cell));
+
+describe("attackOf", () => {
+  const clear: Clear = { lines: 1, tSpin: "none", perfectClear: false, combo: 0, backToBack: false, points: 0 };
+  it("sends garbage by the lines cleared, more for T-spins", () => {
+    expect(attackOf(clear)).toBe(0);
+    expect(attackOf({ ...clear, lines: 4 })).toBe(4);
+    expect(attackOf({ ...clear, lines: 2, tSpin: "full" })).toBe(4);
+    expect(attackOf({ ...clear, lines: 0, tSpin: "full" })).toBe(0);
+  });
+  it("adds to it for combos, back to backs and perfect clears", () => {
+    expect(attackOf({ ...clear, lines: 2, combo: 4 })).toBe(1 + 2);
+    expect(attackOf({ ...clear, lines: 4, backToBack: true })).toBe(4 + 1);
+    expect(attackOf({ ...clear, lines: 4, perfectClear: true })).toBe(4 + 10);
+  });
+});
+
+describe("cancelGarbage", () => {
+  it("cancels the oldest garbage first, sending whatever attack is left", () => {
+    expect(cancelGarbage([2, 3], 1)).toEqual([[1, 3], 0]);
+    expect(cancelGarbage([2, 3], 4)).toEqual([[1], 0]);
+    expect(cancelGarbage([2, 3], 7)).toEqual([[], 2]);
+    expect(cancelGarbage([], 3)).toEqual([[], 3]);
+  });
+});
+
+describe("garbageRows", () => {
+  it("leaves a single hole in every row, as wide as the board", () => {
+    (["clean", "percentage", "random", "cheese"] as const).forEach((messiness) => {
+      const [rows] = garbageRows(messiness, 50, garbageRNG(1), 0, 7);
+      expect(rows.length).toBe(50);
+      expect(rows.every((row) => row.length === 7 && row.filter((cell) => !cell).length === 1)).toBe(true);
+    });
+  });
+  it("keeps the hole of clean garbage in one column for the whole batch", () => {
+    const [rows, , hole] = garbageRows("clean", 8, garbageRNG(2), 3, 10);
+    expect(new Set(holesOf(rows)).size).toBe(1);
+    expect(hole).toBe(holesOf(rows)[0]);
+  });
+  it("moves the hole of percentage garbage for about as many rows as the chance of change", () => {
+    const [rows] = garbageRows("percentage", 1000, garbageRNG(3), 0, 10);
+    const holes = holesOf(rows);
+    const moves = holes.filter((h, i) => h !== (i === 0 ? 0 : holes[i - 1])).length;
+    expect(moves / 1000).toBeGreaterThan(Constants.GARBAGE_CHANGE - 0.05);
+    expect(moves / 1000).toBeLessThan(Constants.GARBAGE_CHANGE + 0.05);
+  });
+  it("puts the hole of random garbage in every column", () => {
+    const [rows] = garbageRows("random", 200, garbageRNG(4), 0, 10);
+    expect(new Set(holesOf(rows)).size).toBe(10);
+  });
+  it("moves the hole of cheese garbage for every row, starting from the one above", () => {
+    const [rows, , hole] = garbageRows("cheese", 200, garbageRNG(5), 4, 10);
+    const holes = holesOf(rows);
+    expect(holes[0]).not.toBe(4);
+    expect(holes.every((h, i) => i === 0 || h !== holes[i - 1])).toBe(true);
+    expect(hole).toBe(holes[holes.length - 1]);
+  });
+});
@@ -0,0 +1,11 @@
+import { describe, expect, it } from "vitest";
+import { PieceSets, parsePieces, pieceSetOf } from "../src/pieces";
+
+describe("pieceSetOf", () => {
+  it("tells the sets apart by their shapes, even once read back from JSON", () => {
+    expect(pieceSetOf(PieceSets.tetrominoes)).toBe("tetrominoes");
+    expect(pieceSetOf(JSON.parse(JSON.stringify(PieceSets.pentominoes)))).toBe("pentominoes");
+    expect(pieceSetOf(PieceSets.mixed)).toBe("mixed");
+    expect(pieceSetOf(parsePieces('[{ "shape": [[1]], "colour": "#fff" }]') ?? [])).toBe("custom");
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { Presets, toConfig } from "../src/presets";
+
+describe("toConfig", () => {
+  it("only starts guideline scored games from level 1", () => {
+    expect(toConfig("modern", { startLevel: 0 }).startLevel).toBe(Presets.modern.startLevel);
+    expect(toConfig("custom", { startLevel: 5 }).startLevel).toBe(5);
+    expect(toConfig("classic", { startLevel: 0 }).startLevel).toBe(0);
+    expect(toConfig("master", { startLevel: 0 }).startLevel).toBe(0);
+  });
+  it("takes the lock-down and the delays from the menu for custom rules only", () => {
+    const values = { lockDown: "classic", lockDelay: 300, are: 6, lineClearDelay: 20 };
+    expect(toConfig("custom", values).timings).toEqual([[0, { lockDown: "classic", lockDelay: 300, are: 6, lineClearDelay: 20 }]]);
+    expect(toConfig("custom", { ...values, are: -1, lockDown: "never" }).timings[0][1].are).toBe(0);
+    expect(toConfig("custom", { ...values, lockDown: "never" }).timings[0][1].lockDown).toBe("extended");
+    expect(toConfig("custom", { ...values, lockDelay: 255.5 }).timings[0][1].lockDelay).toBe(256);
+    expect(toConfig("modern", values).timings).toEqual(Presets.modern.timings);
+    expect(toConfig("master", values).timings).toEqual(Presets.master.timings);
+  });
+});
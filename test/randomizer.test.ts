@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { makeRandomizer } from "../src/randomizer";
+import { PieceSets } from "../src/pieces";
+import { range } from "../src/utils";
+import { Piece, RandomizerKind } from "../src/types";
+
+// The first piece dealt for each of a hundred seeds.
+const openers = (pieces?: ReadonlyArray<Piece>) =>
+  new Set(range(100).map((seed) => makeRandomizer("tgm", pieces)(seed).value));
+
+// The first n pieces dealt for a seed.
+const deal = (kind: RandomizerKind, n: number, seed: number) =>
+  range(n).reduce(({ dealt, r }) => ({ dealt: [...dealt, r.value], r: r.next() }), {
+    dealt: [] as ReadonlyArray<number>,
+    r: makeRandomizer(kind)(seed),
+  }).dealt;
+
+describe("bags", () => {
+  it("deal every piece once in each bag of 7, and twice in each bag of 14", () => {
+    const sevens = deal("bag7", 70, 3);
+    range(10).forEach((i) => expect([...sevens.slice(i * 7, i * 7 + 7)].sort()).toEqual(range(7)));
+    const fourteens = deal("bag14", 70, 3);
+    range(5).forEach((i) =>
+      expect([...fourteens.slice(i * 14, i * 14 + 14)].sort()).toEqual([...range(7), ...range(7)].sort())
+    );
+  });
+  it("deal the same pieces for the same seed, and others for another", () => {
+    expect(deal("bag7", 28, 4)).toEqual(deal("bag7", 28, 4));
+    expect(deal("bag7", 28, 4)).not.toEqual(deal("bag7", 28, 5));
+  });
+});
+
+describe("tgm", () => {
+  it("only opens the tetrominoes with an I, J, L or T, and any other set with any piece", () => {
+    expect([...openers()].sort()).toEqual([0, 1, 2, 5]);
+    // Seven pieces of one's own are not the tetrominoes.
+    const own: ReadonlyArray<Piece> = [...PieceSets.tetrominoes.slice(0, 6), { shape: [[1]], colour: "#abcdef" }];
+    expect(openers(own).size).toBe(7);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { decodeReplay, emptyReplay, encodeReplay, loadPlayback, recordFrame, stateAt } from "../src/replay";
+import { Drop, GameEngine, Move, Pause, PieceSets, Pos, Presets, Restart, Rotate } from "../src/engine";
+import { toConfig } from "../src/presets";
+
+// A short game: a move and a turn, a drop, and a few frames of nothing.
+const frames = [[new Move(new Pos(-1, 0)), new Rotate(1)], [], [new Drop()], [], []];
+const replay = frames.reduce(recordFrame, emptyReplay(11));
+
+describe("replays", () => {
+  it("keep only the frames with inputs, and play back to the same game", () => {
+    expect(replay.frames).toBe(5);
+    expect(replay.inputs.map(([frame]) => frame)).toEqual([0, 2]);
+
+    const decoded = decodeReplay(encodeReplay(replay));
+    expect(decoded).toEqual(replay);
+    const played = frames.reduce((e, inputs) => e.step(inputs), GameEngine.create({ seed: 11 })).getState();
+    const watched = decoded ? stateAt(loadPlayback(decoded))(5) : undefined;
+    expect(watched?.floor).toEqual(played.floor);
+    expect(watched?.stats).toEqual(played.stats);
+  });
+  it("are read back with the rules of every preset, and with any set of pieces", () => {
+    const configs = [
+      ...Object.values(Presets),
+      { ...Presets.custom, pieces: PieceSets.mixed, board: { width: 12, height: 30, buffer: 0 } },
+      toConfig("custom", { lockDelay: 255.5 }),
+    ];
+    configs.forEach((config) => expect(decodeReplay(encodeReplay(emptyReplay(11, undefined, config.rotation, config)))).toBeDefined());
+  });
+  it("are rejected once anything in them is not what was recorded", () => {
+    const tampered = (changes: Record<string, unknown>) => decodeReplay(JSON.stringify({ ...replay, ...changes }));
+    expect(decodeReplay("not json")).toBeUndefined();
+    expect(tampered({ version: 1 })).toBeUndefined();
+    expect(tampered({ seed: "11" })).toBeUndefined();
+    expect(tampered({ frames: -1 })).toBeUndefined();
+    expect(tampered({ mode: { kind: "sprint" } })).toBeUndefined();
+    expect(tampered({ rotation: "tgm" })).toBeUndefined();
+    expect(tampered({ config: { board: { width: 10 } } })).toBeUndefined();
+    expect(tampered({ config: { ...replay.config, pieces: [1] } })).toBeUndefined();
+    expect(tampered({ config: { ...replay.config, gravity: [] } })).toBeUndefined();
+    expect(tampered({ config: { ...replay.config, timings: [[0, { are: 1 }]] } })).toBeUndefined();
+    expect(tampered({ config: { ...replay.config, scoring: "golf" } })).toBeUndefined();
+    expect(tampered({ config: { ...replay.config, leveling: "lines", levelLines: 0 } })).toBeUndefined();
+    expect(tampered({ inputs: [[0, [["restart", null, null, null, { ...replay.config, pieces: [1] }]]]] })).toBeUndefined();
+    expect(tampered({ inputs: [[7, [["drop"]]]] })).toBeUndefined(); // Past the last frame
+    expect(tampered({ inputs: [[2, [["drop"]]], [0, [["drop"]]]] })).toBeUndefined(); // Out of order
+    expect(tampered({ inputs: [[0, [["teleport"]]]] })).toBeUndefined();
+    expect(tampered({ inputs: [[0, [["move", "left", 0]]]] })).toBeUndefined();
+    expect(tampered({ inputs: [[0, [["lockDown", "forever", 500]]]] })).toBeUndefined();
+  });
+  it("can not be loaded as saved games once they can not be played back", () => {
+    const unplayable = { ...replay, config: { ...replay.config, pieces: [{}] } };
+    expect(GameEngine.deserialize(JSON.stringify(unplayable))).toBeUndefined();
+    expect(GameEngine.deserialize(encodeReplay(replay))?.getFrame()).toBe(5);
+  });
+  it("hold still through the pause that a game opens with, until it is started", () => {
+    // A minute in the start menu, like the game records it, then a start and a drop.
+    const waited = [[new Pause(true)], ...Array.from({ length: 3599 }, () => []), [new Restart()], [new Drop()]];
+    const playback = loadPlayback(waited.reduce(recordFrame, emptyReplay(11)));
+    const spawned = GameEngine.create({ seed: 11 }).getState().active.pos.y;
+    expect(stateAt(playback)(3600).isPaused).toBe(true);
+    expect(stateAt(playback)(3600).active.pos.y).toBe(spawned);
+    expect(stateAt(playback)(3602).stats.pieces).toBe(1);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { detectTSpin, scoreClear, scoreMaster } from "../src/scoring";
+import { TBlock, Tetromino } from "../src/tetrominos";
+import { Floor, Pos } from "../src/types";
+
+// A T-spin double slot, with the corner over it on the left filled in.
+const X = "purple";
+const slot: Floor = [
+  [X, X, 0, 0, 0],
+  [0, 0, 0, 0, 0],
+  [X, X, 0, X, X],
+];
+const t = (rotationState: number) => new Tetromino(TBlock, "purple", new Pos(1, 0), rotationState);
+
+describe("detectTSpin", () => {
+  it("counts a turned T with three corners filled, fully if both in front of it are", () => {
+    expect(detectTSpin(t(2), slot, 0, 1)).toBe("full");
+    expect(detectTSpin(t(0), slot, 0, 1)).toBe("mini");
+    expect(detectTSpin(t(2), slot, -1, 0)).toBe("none"); // Moved or dropped in, rather than turned
+  });
+  it("only counts the T-spin triple kick as a full T-spin on a quarter turn", () => {
+    expect(detectTSpin(t(0), slot, 4, -1)).toBe("full");
+    expect(detectTSpin(t(0), slot, 4, 2)).toBe("mini"); // The fifth kick of a half turn is another one
+  });
+});
+
+describe("scoreClear", () => {
+  const start = { combo: -1, backToBack: false, level: 1 };
+  it("scores T-spins by their own table", () => {
+    expect(scoreClear(start, 2, "full", false).points).toBe(1200);
+    expect(scoreClear(start, 1, "mini", false).points).toBe(200);
+    expect(scoreClear(start, 2, "none", false).points).toBe(300);
+  });
+  it("adds half again for a difficult clear back to back, which anything but a single keeps up", () => {
+    const tetris = scoreClear(start, 4, "none", false);
+    expect(tetris.backToBack).toBe(false);
+    const again = scoreClear({ ...start, backToBack: true }, 4, "none", false);
+    expect(again.backToBack).toBe(true);
+    expect(again.points).toBe(1200);
+    expect(scoreClear({ ...start, backToBack: true }, 1, "none", false).backToBack).toBe(false);
+  });
+  it("adds 50 for every clear in a row after the first, until a lock clears nothing", () => {
+    const third = scoreClear({ ...start, combo: 1 }, 1, "none", false);
+    expect(third.combo).toBe(2);
+    expect(third.points).toBe(100 + 2 * 50);
+    expect(scoreClear({ ...start, combo: 1 }, 0, "none", false).combo).toBe(-1);
+  });
+  it("adds the perfect clear bonus, the most for one back to back with a tetris", () => {
+    expect(scoreClear(start, 4, "none", true).points).toBe(800 + 2000);
+    expect(scoreClear({ ...start, backToBack: true }, 4, "none", true).points).toBe(1200 + 3200);
+  });
+  it("multiplies everything by the level", () => {
+    expect(scoreClear({ ...start, level: 3 }, 2, "full", false).points).toBe(3 * 1200);
+  });
+  it("scores a clear at level 0 as if it was at level 1", () => {
+    const chain = { combo: -1, backToBack: false };
+    expect(scoreClear({ ...chain, level: 0 }, 1, "none", false).points).toBe(100);
+    expect(scoreClear({ ...chain, level: 1 }, 1, "none", false).points).toBe(100);
+  });
+});
+
+describe("scoreMaster", () => {
+  it("scores the lines by the level they are cleared at, four times over for a perfect clear", () => {
+    expect(scoreMaster(0, 1, false).points).toBe(1);
+    expect(scoreMaster(100, 4, false).points).toBe(104);
+    expect(scoreMaster(100, 4, true).points).toBe(416);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { ratesOf } from "../src/stats";
+import { GameEngine } from "../src/engine";
+
+const start = GameEngine.create().getState();
+
+describe("ratesOf", () => {
+  it("derives the rates from the counters and the time played", () => {
+    // Two minutes, at 60 frames a second.
+    const rates = ratesOf({ ...start, frames: 7200, cleared: 40, stats: { pieces: 240, keys: 720, attack: 30 } });
+    expect(rates.pps).toBeCloseTo(2);
+    expect(rates.apm).toBeCloseTo(15);
+    expect(rates.kpp).toBe(3);
+    expect(rates.lpm).toBeCloseTo(20);
+  });
+  it("is all zero before anything is played", () => {
+    expect(ratesOf(start)).toEqual({ pps: 0, apm: 0, kpp: 0, lpm: 0 });
+  });
+});
@@ -0,0 +1,16 @@
+import { defineConfig } from "vite";
+
+/**
+ * Builds the headless GameEngine as an ES module for Node, apart from the browser game.
+ */
+export default defineConfig({
+  build: {
+    outDir: "dist/engine",
+    ssr: true, // Bundle for Node, leaving rxjs to be imported from node_modules
+    target: "node18",
+    rollupOptions: {
+      input: "src/engine.ts",
+      output: { entryFileNames: "engine.js" },
+    },
+  },
+});